@@ -1,9 +1,17 @@
 import Busboy from "busboy";
 import fs from "fs";
 import {Readable} from "node:stream";
+import {AsyncLocalStorage} from "node:async_hooks";
 
-export interface File extends Partial<Busboy.FileInfo> {
+export type FileInfo = Partial<Busboy.FileInfo>;
+
+export interface File extends FileInfo {
     size: number;
+    // set by file parsers with sniff, hash and image options
+    detectedMimeType?: string;
+    digest?: string;
+    width?: number;
+    height?: number;
 
     append(buffer: Buffer): Promise<void>;
     read(): Promise<Buffer>;
@@ -14,6 +22,12 @@ export interface File extends Partial<Busboy.FileInfo> {
     saveSync(path: string): void;
 
     createReadStream(): NodeJS.ReadableStream;
+
+    // moves the file to the path, it's no longer disposed after that
+    move(path: string): Promise<void>;
+    // releases the memory or deletes the temp file
+    dispose(): Promise<void>;
+    [Symbol.asyncDispose](): Promise<void>;
 }
 
 export class RAMFile implements File {
@@ -23,7 +37,7 @@ export class RAMFile implements File {
     public size: number = 0;
     private data: Buffer = Buffer.alloc(0);
 
-    constructor(fileInfo?: Busboy.FileInfo) {
+    constructor(fileInfo?: FileInfo) {
         this.filename = fileInfo?.filename;
         this.encoding = fileInfo?.encoding;
         this.mimeType = fileInfo?.mimeType;
@@ -54,6 +68,19 @@ export class RAMFile implements File {
         fs.writeFileSync(path, this.data);
     }
 
+    public async move(path: string): Promise<void> {
+        await this.save(path);
+    }
+
+    public async dispose(): Promise<void> {
+        this.data = Buffer.alloc(0);
+        this.size = 0;
+    }
+
+    public [Symbol.asyncDispose](): Promise<void> {
+        return this.dispose();
+    }
+
     createReadStream(): NodeJS.ReadableStream {
         return Readable.from(this.data);
     }
@@ -63,8 +90,10 @@ export class TempFile implements File {
     filename?: string;
     encoding?: string;
     mimeType?: string;
+    // false after move
+    private temporary = true;
 
-    constructor(private path: string, public size: number, fileInfo?: Busboy.FileInfo) {
+    constructor(private path: string, public size: number, fileInfo?: FileInfo) {
         this.filename = fileInfo?.filename;
         this.encoding = fileInfo?.encoding;
         this.mimeType = fileInfo?.mimeType;
@@ -96,6 +125,28 @@ export class TempFile implements File {
         fs.copyFileSync(this.path, path);
     }
 
+    // renames the file, copies it when the path is on another file system
+    public async move(path: string): Promise<void> {
+        try {
+            await fs.promises.rename(this.path, path);
+        }
+        catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+            await fs.promises.copyFile(this.path, path);
+            await fs.promises.rm(this.path, {force: true});
+        }
+        this.path = path;
+        this.temporary = false;
+    }
+
+    public async dispose(): Promise<void> {
+        if (this.temporary) await fs.promises.rm(this.path, {force: true});
+    }
+
+    public [Symbol.asyncDispose](): Promise<void> {
+        return this.dispose();
+    }
+
     public getPath(): string {
         return this.path;
     }
@@ -105,29 +156,392 @@ export class TempFile implements File {
     }
 }
 
+// RAMFile, TempFile or a File of a custom storage
+export function isFile(value: unknown): value is File {
+    if (value instanceof RAMFile || value instanceof TempFile) return true;
+    const file = value as Partial<File> | null;
+    return typeof file === "object" && file !== null && typeof file.size === "number" &&
+        typeof file.read === "function" && typeof file.createReadStream === "function";
+}
+
+// temp files created by the running stream parser, they're disposed when it fails
+const fileScope = new AsyncLocalStorage<Set<File>>();
+
+function disposeFiles(files: Iterable<File>): Promise<unknown> {
+    return Promise.all([...files].map(file => file.dispose()));
+}
+
+/**
+ * Returns a function which registers temp files created by the current stream parser.
+ * Call it synchronously when the parser starts, stream events don't run in the parser's async context
+ */
+export function fileTracker(): (file: File) => void {
+    const files = fileScope.getStore();
+    return file => {
+        files?.add(file);
+    };
+}
+
+/**
+ * Runs fn and disposes all temp files created by stream parsers inside it when it finishes (also when it throws),
+ * e.g. around a request handler. Moved files are kept
+ */
+export async function parseScope<R>(fn: () => R | Promise<R>): Promise<R> {
+    const files = new Set<File>();
+    try {
+        return await fileScope.run(files, fn);
+    }
+    finally {
+        await disposeFiles(files);
+    }
+}
+
+// files of a successful parse are passed to the enclosing parser or parse scope
+async function trackFiles<T>(parse: () => Promise<T>): Promise<T> {
+    const parent = fileScope.getStore();
+    const files = new Set<File>();
+    return fileScope.run(files, async () => {
+        try {
+            const result = await parse();
+            files.forEach(file => parent?.add(file));
+            return result;
+        }
+        catch (error) {
+            await disposeFiles(files);
+            throw error;
+        }
+    });
+}
+
 export const anyField = Symbol("anyField");
 
+export type PathSegment = string | number;
+export type FieldPath = Array<PathSegment>;
+
+export type IssueCode =
+    | "invalid_type"
+    | "too_small"
+    | "too_big"
+    | "pattern_mismatch"
+    | "required"
+    | "not_allowed"
+    | "invalid_value"
+    | "invalid_union"
+    | "invalid_format"
+    | "invalid_json"
+    | "unsupported_media_type"
+    | "read_error"
+    | "not_multiple_of"
+    | "not_unique"
+    | "custom";
+
+export interface FieldError {
+    path: FieldPath;
+    code: IssueCode;
+    issue: string;
+    params: Record<string, unknown>;
+    rejectedValue: unknown;
+}
+
 export class ParsingError extends Error {
     name = 'ParsingError';
 
-    constructor(message: string, public fields: Array<{path: string | undefined, issue: string, rejectedValue: any}> = []) {
+    constructor(message: string, public fields: Array<FieldError> = []) {
         super(message);
         Object.setPrototypeOf(this, ParsingError.prototype);
     }
 }
 
-export type RawParser<T> = (value: unknown, path?: string) => T;
-export type StreamParser<T> = (value: NodeJS.ReadableStream, path?: string) => Promise<T>;
-export type Parser<T> = RawParser<T> & {stream: StreamParser<T>};
+// options.contentType or the Content-Type header
+export function contentType(options?: StreamOptions): string | undefined {
+    if (options?.contentType) return options.contentType;
+    const header = Object.entries(options?.headers ?? {}).find(([name]) => name.toLowerCase() === "content-type")?.[1];
+    return Array.isArray(header) ? header[0] : header;
+}
+
+// media type without parameters, e.g. "multipart/form-data"
+export function mediaType(options?: StreamOptions): string | undefined {
+    return contentType(options)?.split(";")[0]!.trim().toLowerCase() || undefined;
+}
+
+export function toPath(path?: string | FieldPath): FieldPath {
+    if (path === undefined) return [];
+    return typeof path === "string" ? [path] : path;
+}
+
+export function formatPath(path?: string | FieldPath): string {
+    return toPath(path).reduce<string>((result, segment) => {
+        if (typeof segment === "number") return `${result}[${segment}]`;
+        return result === "" ? segment : `${result}.${segment}`;
+    }, "");
+}
 
-export async function streamToBuffer(stream: NodeJS.ReadableStream) {
+const typeNames: Record<string, string> = {
+    Buffer: "converted to a Buffer",
+    string: "converted to a string",
+    integer: "parsed as integer",
+    float: "parsed as float",
+    boolean: "converted to boolean",
+    object: "converted to an object",
+    File: "converted to a File",
+    date: "parsed as date",
+    time: "parsed as time",
+    duration: "parsed as duration",
+    bigint: "parsed as bigint",
+    decimal: "parsed as decimal",
+    map: "converted to a map",
+    entry: "converted to a [key, value] entry"
+};
+
+const formatNames: Record<string, string> = {
+    uuid: "UUID",
+    email: "email",
+    url: "URL",
+    ipv4: "IPv4 address",
+    ipv6: "IPv6 address",
+    cidr: "CIDR network",
+    hostname: "host name",
+    ulid: "ULID",
+    cuid: "CUID",
+    semver: "semantic version",
+    base64: "base64 string",
+    base64url: "base64url string",
+    hex: "hexadecimal string",
+    jwt: "JWT",
+    phone: "E.164 phone number",
+    slug: "slug",
+    date: "ISO 8601 date",
+    time: "ISO 8601 time",
+    "date-time-offset": "date with a time zone offset",
+    "time-offset": "time with a time zone offset",
+    duration: "ISO 8601 duration",
+    csv: "CSV row"
+};
+
+function defaultIssue(code: IssueCode, params: Record<string, unknown>): string {
+    switch (code) {
+        case "invalid_type":
+            if (params.expected === "array") return "should be an array";
+            return `cannot be ${typeNames[params.expected as string] ?? `converted to ${params.expected}`}`;
+        case "too_small":
+            if (params.exact) return `should be exactly ${params.min}`;
+            if (params.exclusive) return `should be greater than ${params.min}`;
+            return `is less than the allowed minimum (${params.min})`;
+        case "too_big":
+            if (params.exact) return `should be exactly ${params.max}`;
+            return `is larger than the allowed maximum (${params.max})`;
+        case "pattern_mismatch":
+            return "doesn't match the pattern";
+        case "required":
+            return "is required";
+        case "not_allowed":
+            return "is not allowed";
+        case "invalid_value":
+            if (Array.isArray(params.values)) return `isn't equal to any of the expected values (${params.values.map(String).join(", ")})`;
+            return "isn't equal to any of the expected values";
+        case "invalid_union":
+            return "doesn't match any of allowed alternatives";
+        case "invalid_format":
+            return `is not a valid ${formatNames[params.format as string] ?? params.format}`;
+        case "invalid_json":
+            return `is not valid JSON: ${params.reason} at position ${params.position}`;
+        case "unsupported_media_type":
+            return `has unsupported media type ${params.contentType}${Array.isArray(params.supported) ? ` (expected ${params.supported.join(", ")})` : ""}`;
+        case "read_error":
+            return `cannot be read: ${params.reason}`;
+        case "not_multiple_of":
+            return `should be a multiple of ${params.multipleOf}`;
+        case "not_unique":
+            return "is a duplicate";
+        case "custom":
+            return "is invalid";
+    }
+}
+
+function issueLabel(code: IssueCode, path: FieldPath, params: Record<string, unknown>): string {
+    const formatted = formatPath(path);
+    if (code !== "too_small" && code !== "too_big") return formatted;
+    if (params.type === "string" || params.type === "array") return `length(${formatted})`;
+    if (["file", "bytes", "set", "map"].includes(params.type as string)) return `size(${formatted})`;
+    if (["depth", "width", "height", "precision", "scale", "files", "fields"].includes(params.type as string)) return `${params.type}(${formatted})`;
+    return formatted;
+}
+
+export interface Issue {
+    code: IssueCode;
+    path: FieldPath;
+    params: Record<string, unknown>;
+    rejectedValue: unknown;
+}
+
+// Returns the issue text, or undefined to fall back to the next formatter
+export type ErrorMap = (issue: Issue) => string | undefined;
+export type IssueMessage = string | ((issue: Issue) => string);
+
+let globalErrorMap: ErrorMap | undefined;
+const scopedErrorMap = new AsyncLocalStorage<ErrorMap>();
+
+/**
+ * Sets the error map used by all parsers. Pass undefined to restore the default english messages
+ */
+export function setErrorMap(errorMap?: ErrorMap): void {
+    globalErrorMap = errorMap;
+}
+
+/**
+ * Runs fn with the error map applied to every parser called inside it (including async and stream parsing).
+ * Issues the map doesn't handle fall back to the global error map
+ */
+export function withErrorMap<R>(errorMap: ErrorMap, fn: () => R): R {
+    return scopedErrorMap.run(errorMap, fn);
+}
+
+function formatIssue(issue: Issue, message?: IssueMessage): string {
+    if (typeof message === "string") return message;
+    if (message) return message(issue);
+    return scopedErrorMap.getStore()?.(issue) ?? globalErrorMap?.(issue) ?? defaultIssue(issue.code, issue.params);
+}
+
+/**
+ * Creates a ParsingError with a single field entry
+ *
+ * @param code - machine-readable issue code
+ * @param path - path of the rejected value
+ * @param rejectedValue - the input which was rejected
+ * @param params - constraint parameters of the failed check (e.g. {min: 3})
+ * @param message - parser-level message override (takes precedence over error maps)
+ */
+export function createError(code: IssueCode, path: string | FieldPath | undefined, rejectedValue: unknown, params: Record<string, unknown> = {}, message?: IssueMessage): ParsingError {
+    const fieldPath = toPath(path);
+    const issue = formatIssue({code, path: fieldPath, params, rejectedValue}, message);
+    return new ParsingError(`[${issueLabel(code, fieldPath, params)}] ${issue}`, [{path: fieldPath, code, issue, params, rejectedValue}]);
+}
+
+/**
+ * Combines several ParsingErrors into one, keeping all field entries
+ */
+export function mergeErrors(errors: Array<ParsingError>, message: string = errors.map(error => error.message).join('\n')): ParsingError {
+    const fieldErrors: Array<FieldError> = [];
+    errors.forEach(({fields}) => {
+        fieldErrors.push(...fields);
+    });
+    return new ParsingError(message, fieldErrors);
+}
+
+export interface RefinementIssue {
+    message?: IssueMessage;
+    // relative to the refined value
+    path?: FieldPath;
+    code?: IssueCode;
+    params?: Record<string, unknown>;
+}
+
+export interface RefinementContext {
+    path: FieldPath;
+    addIssue(issue?: RefinementIssue): void;
+}
+
+export type Refinement<T> = (value: T, context: RefinementContext) => void | Promise<void>;
+
+function valueAt(value: unknown, path: FieldPath): unknown {
+    return path.reduce<unknown>((current, segment) => (current as Record<PropertyKey, unknown> | undefined)?.[segment], value);
+}
+
+function refinementContext(value: unknown, path: string | FieldPath | undefined, errors: Array<ParsingError>): RefinementContext {
+    return {
+        path: toPath(path),
+        addIssue: ({message, path: issuePath = [], code = "custom", params = {}} = {}) => {
+            errors.push(createError(code, [...toPath(path), ...issuePath], valueAt(value, issuePath), params, message));
+        }
+    };
+}
+
+/**
+ * Runs refinements of an already parsed value and throws all issues they add as one ParsingError.
+ * Throws AsyncParsingRequiredError if a refinement is async
+ */
+export function runRefinements<T>(value: T, path: string | FieldPath | undefined, refinements: Array<Refinement<T>>): void {
+    const errors: Array<ParsingError> = [];
+    for (const refinement of refinements) {
+        const result = refinement(value, refinementContext(value, path, errors));
+        if (result instanceof Promise) {
+            result.catch(() => {});
+            throw new AsyncParsingRequiredError(path);
+        }
+    }
+    if (errors.length > 0) throw mergeErrors(errors);
+}
+
+export async function runRefinementsAsync<T>(value: T, path: string | FieldPath | undefined, refinements: Array<Refinement<T>>): Promise<void> {
+    const errors: Array<ParsingError> = [];
+    for (const refinement of refinements) {
+        await refinement(value, refinementContext(value, path, errors));
+    }
+    if (errors.length > 0) throw mergeErrors(errors);
+}
+
+// Turns a (possibly async) predicate into a refinement which adds the issue when the predicate fails
+export function predicateRefinement<T>(predicate: (value: T) => boolean | Promise<boolean>, issue: IssueMessage | RefinementIssue = {}): Refinement<T> {
+    const refinementIssue = typeof issue === "object" ? issue : {message: issue};
+    return (value, context) => {
+        const result = predicate(value);
+        if (result instanceof Promise) {
+            return result.then(valid => {
+                if (!valid) context.addIssue(refinementIssue);
+            });
+        }
+        if (!result) context.addIssue(refinementIssue);
+    };
+}
+
+export type SafeParseResult<T> = {ok: true, value: T} | {ok: false, error: ParsingError};
+
+export type RawParser<T> = (value: unknown, path?: string | FieldPath) => T;
+// describes the body of a stream, e.g. from HTTP request headers
+export type StreamOptions = {
+    // media type, e.g. "application/json; charset=utf-8", takes precedence over headers
+    contentType?: string;
+    headers?: Record<string, string | Array<string> | undefined>;
+};
+export type StreamParser<T> = (value: NodeJS.ReadableStream, path?: string | FieldPath, options?: StreamOptions) => Promise<T>;
+export type SafeRawParser<T> = (value: unknown, path?: string | FieldPath) => SafeParseResult<T>;
+export type SafeStreamParser<T> = (value: NodeJS.ReadableStream, path?: string | FieldPath, options?: StreamOptions) => Promise<SafeParseResult<T>>;
+export type AsyncParser<T> = (value: unknown, path?: string | FieldPath) => Promise<T>;
+export type SafeAsyncParser<T> = (value: unknown, path?: string | FieldPath) => Promise<SafeParseResult<T>>;
+export type Parser<T> = RawParser<T> & {
+    safe: SafeRawParser<T>,
+    stream: StreamParser<T> & {safe: SafeStreamParser<T>},
+    async: AsyncParser<T> & {safe: SafeAsyncParser<T>},
+    meta?: ParserMeta
+};
+
+// Introspectable description of a parser, used by schema generators
+export interface ParserMeta {
+    kind: string;
+    options?: Record<string, unknown>;
+    // object shape
+    shape?: Record<string | symbol, Parser<unknown>>;
+    // wrapped parser (array and set items, tuple rest items, record and map values, optional, nullable, defaultValue, transform)
+    inner?: Parser<unknown>;
+    // record and map keys
+    key?: Parser<unknown>;
+    // alternatives, tuple items
+    parsers?: ReadonlyArray<Parser<unknown>>;
+    // oneOf, literal, nativeEnum
+    values?: readonly unknown[];
+    // discriminatedUnion branches by tag value
+    branches?: Record<string, Parser<unknown>>;
+    default?: unknown;
+}
+
+export async function streamToBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
     return new Promise((resolve, reject) => {
-        let data = Buffer.alloc(0);
+        const chunks: Array<Buffer> = [];
         stream.on('data', (chunk: Buffer | string) => {
-            data = Buffer.concat([data, Buffer.from(chunk)])
+            chunks.push(Buffer.from(chunk));
         });
-        stream.on('end', () => {
-            resolve(data);
+        onStreamEnd(stream, () => {
+            resolve(Buffer.concat(chunks));
         });
         stream.on('error', (err: Error) => {
             reject(err);
@@ -135,9 +549,130 @@ export async function streamToBuffer(stream: NodeJS.ReadableStream) {
     })
 }
 
-export function createParser<T>(parser: RawParser<T>, streamParser?: (parser: RawParser<T>) => StreamParser<T>): Parser<T> {
-    if (!streamParser) return createParser(parser, parser_ => async (stream, path): Promise<T> => parser_(await streamToBuffer(stream), path));
-    const parserFn = (value: unknown, path?: string): T => parser(value, path);
-    parserFn.stream = streamParser(parser);
+// resolves with the first chunk of the stream (empty for empty streams) and puts it back
+export function peekStream(stream: NodeJS.ReadableStream): Promise<string> {
+    return new Promise((resolve) => {
+        const wasFlowing = (stream as any).readableFlowing;
+        stream.pause();
+
+        let resolved = false;
+        const cleanup = () => {
+            stream.removeListener('readable', handleReadable);
+            stream.removeListener('end', handleEnd);
+        };
+
+        const restoreFlowingState = () => {
+            if (wasFlowing === true) {
+                stream.resume();
+            }
+        };
+
+        const handleReadable = () => {
+            if (resolved) return;
+            const chunk = stream.read();
+
+            if (chunk === null) {
+                handleEnd();
+                return;
+            }
+
+            stream.unshift(chunk);
+            resolved = true;
+            cleanup();
+            restoreFlowingState();
+            resolve(typeof chunk === "string" ? chunk : Buffer.from(chunk).toString());
+        };
+
+        const handleEnd = () => {
+            if (resolved) return;
+            resolved = true;
+            cleanup();
+            restoreFlowingState();
+            resolve("");
+        };
+
+        stream.once('readable', handleReadable);
+        stream.once('end', handleEnd);
+
+        process.nextTick(() => {
+            if (resolved) return;
+            if ((stream as any).readableEnded) {
+                handleEnd();
+            }
+        });
+    });
+}
+
+/**
+ * Calls the listener when the stream ends, also when it has already ended (e.g. an empty body whose end was seen while peeking at it)
+ */
+export function onStreamEnd(stream: NodeJS.ReadableStream, listener: () => void): void {
+    if ((stream as Readable).readableEnded) process.nextTick(listener);
+    else stream.on('end', listener);
+}
+
+function toSafeResult<T>(error: unknown): SafeParseResult<T> {
+    if (error instanceof ParsingError) return {ok: false, error};
+    throw error;
+}
+
+async function safeAsync<T>(promise: () => Promise<T>): Promise<SafeParseResult<T>> {
+    try {
+        return {ok: true, value: await promise()};
+    }
+    catch (error) {
+        return toSafeResult(error);
+    }
+}
+
+export class AsyncParsingRequiredError extends Error {
+    name = 'AsyncParsingRequiredError';
+
+    constructor(path?: string | FieldPath) {
+        super(`[${formatPath(path)}] has an async check, use .async or .stream instead of synchronous parsing`);
+        Object.setPrototypeOf(this, AsyncParsingRequiredError.prototype);
+    }
+}
+
+/**
+ * Creates a parser
+ *
+ * @param parser - synchronous parser of raw values
+ * @param streamParser - factory of the stream parser. By default the stream is read into a Buffer and parsed with the async parser
+ * @param meta - introspectable description of the parser (see toJSONSchema)
+ * @param asyncParser - factory of the async parser. By default it runs the synchronous parser.
+ * Composite parsers should provide it and call .async of their inner parsers, so async checks work inside them
+ */
+export function createParser<T>(
+    parser: RawParser<T>,
+    streamParser?: (parser: RawParser<T>, asyncParser: AsyncParser<T>) => StreamParser<T>,
+    meta?: ParserMeta,
+    asyncParser?: (parser: RawParser<T>) => AsyncParser<T>
+): Parser<T> {
+    const asyncFn: AsyncParser<T> = asyncParser ? asyncParser(parser) : async (value, path) => parser(value, path);
+    const readStream: StreamParser<T> = streamParser ? streamParser(parser, asyncFn) : async (stream, path) => asyncFn(await streamToBuffer(stream), path);
+    const streamFn: StreamParser<T> = (stream, path, options) => trackFiles(() => readStream(stream, path, options));
+
+    const parserFn = (value: unknown, path?: string | FieldPath): T => parser(value, path);
+    parserFn.safe = (value: unknown, path?: string | FieldPath): SafeParseResult<T> => {
+        try {
+            return {ok: true, value: parser(value, path)};
+        }
+        catch (error) {
+            return toSafeResult(error);
+        }
+    };
+    parserFn.stream = Object.assign((stream: NodeJS.ReadableStream, path?: string | FieldPath, options?: StreamOptions): Promise<T> => streamFn(stream, path, options), {
+        safe: (stream: NodeJS.ReadableStream, path?: string | FieldPath, options?: StreamOptions): Promise<SafeParseResult<T>> => safeAsync(() => streamFn(stream, path, options))
+    });
+    parserFn.async = Object.assign((value: unknown, path?: string | FieldPath): Promise<T> => asyncFn(value, path), {
+        safe: (value: unknown, path?: string | FieldPath): Promise<SafeParseResult<T>> => safeAsync(() => asyncFn(value, path))
+    });
+    if (meta) parserFn.meta = meta;
     return parserFn as Parser<T>;
-}
\ No newline at end of file
+}
+
+// Parses the value with async checks (same as parser.async)
+export function parseAsync<T>(parser: Parser<T>, value: unknown, path?: string | FieldPath): Promise<T> {
+    return parser.async(value, path);
+}
@@ -1,6 +1,6 @@
-import {createParser, ParsingError} from "./base.js";
+import {createParser, createError, type FieldPath, type IssueMessage} from "./base.js";
 
-export const buffer = () => createParser((value, path): Buffer => {
+export const buffer = (options: { message?: IssueMessage } = {}) => createParser((value, path): Buffer => {
     if (Buffer.isBuffer(value)) return value;
 
     // string -> Buffer (defaults to utf8)
@@ -28,10 +28,24 @@ export const buffer = () => createParser((value, path): Buffer => {
         return Buffer.from((value as any).data);
     }
 
-    throw new ParsingError(`[${path ?? ""}] cannot be converted to a Buffer`, [{path, issue: "cannot be converted to a Buffer", rejectedValue: null}]);
-});
+    throw createError("invalid_type", path, value, {expected: "Buffer"}, options.message);
+}, undefined, {kind: "buffer", options});
 
-export const string = (options: { min?: number; max?: number; pattern?: RegExp } = {}) => createParser((value, path): string => {
+export type StringOptions = {
+    min?: number;
+    max?: number;
+    // exact length
+    length?: number;
+    pattern?: RegExp;
+    // preprocessing, applied before the checks in this order
+    normalize?: boolean | "NFC" | "NFD" | "NFKC" | "NFKD";
+    trim?: boolean;
+    toLowerCase?: boolean;
+    toUpperCase?: boolean;
+    message?: IssueMessage;
+};
+
+export const string = (options: StringOptions = {}) => createParser((value, path): string => {
     let strValue: string;
 
     if (typeof value === 'string') {
@@ -45,82 +59,253 @@ export const string = (options: { min?: number; max?: number; pattern?: RegExp }
             strValue = buffer()(value, path).toString();
         }
         catch (error) {
-            throw new ParsingError(`[${path ?? ""}] cannot be converted to a string`, [{path, issue: "cannot be converted to a string", rejectedValue: null}]);
+            throw createError("invalid_type", path, value, {expected: "string"}, options.message);
         }
     }
 
+    if (options.normalize) strValue = strValue.normalize(options.normalize === true ? "NFC" : options.normalize);
+    if (options.trim) strValue = strValue.trim();
+    if (options.toLowerCase) strValue = strValue.toLowerCase();
+    if (options.toUpperCase) strValue = strValue.toUpperCase();
+
+    if (options.length !== undefined && strValue.length < options.length) {
+        throw createError("too_small", path, value, {min: options.length, type: "string", exact: true}, options.message);
+    }
+    if (options.length !== undefined && strValue.length > options.length) {
+        throw createError("too_big", path, value, {max: options.length, type: "string", exact: true}, options.message);
+    }
     if (options.min !== undefined && strValue.length < options.min) {
-        throw new ParsingError(`[length(${path ?? ""})] is less than the allowed minimum (${options.min})`, [{path, issue: `less than the allowed minimum (${options.min})`, rejectedValue: strValue}]);
+        throw createError("too_small", path, value, {min: options.min, type: "string"}, options.message);
     }
     if (options.max !== undefined && strValue.length > options.max) {
-        throw new ParsingError(`[length(${path ?? ""})] is larger than the allowed maximum (${options.max})`, [{path, issue: `larger than the allowed maximum (${options.max})`, rejectedValue: strValue}]);
+        throw createError("too_big", path, value, {max: options.max, type: "string"}, options.message);
     }
     if (options.pattern && !options.pattern.test(strValue)) {
-        throw new ParsingError(`[${path ?? ""}] doesn't match the pattern`, [{path, issue: `doesn't match the pattern`, rejectedValue: strValue}]);
+        throw createError("pattern_mismatch", path, value, {pattern: options.pattern.source}, options.message);
     }
 
     return strValue;
-});
+}, undefined, {kind: "string", options});
 
-export const int = (options: { min?: number; max?: number } = {}) => createParser((value, path): number => {
-    let numValue: number;
+export type NumberOptions = {
+    min?: number;
+    max?: number;
+    // greater than 0
+    positive?: boolean;
+    // greater than or equal to 0
+    nonNegative?: boolean;
+    multipleOf?: number;
+    // strings have to be plain decimal numbers: trailing characters, exponents, hex and empty strings are rejected
+    strict?: boolean;
+    message?: IssueMessage;
+};
 
-    if (typeof value === 'number') {
-        numValue = value;
+const strictInteger = /^[+-]?\d+$/;
+const strictFloat = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+// numbers are returned as is, other values are coerced to strings first
+function toNumber(value: unknown, path: string | FieldPath | undefined, strictPattern: RegExp | undefined): number {
+    if (typeof value === 'number') return value;
+    const strValue = string()(value, path);
+    if (strictPattern && !strictPattern.test(strValue)) return NaN;
+    return parseFloat(strValue);
+}
+
+// ratios are compared with a tolerance, so 0.3 is a multiple of 0.1
+const isMultipleOf = (value: number, multipleOf: number) => {
+    const ratio = value / multipleOf;
+    return Math.abs(ratio - Math.round(ratio)) < 1e-9;
+};
+
+function checkNumber(numValue: number, value: unknown, path: string | FieldPath | undefined, options: NumberOptions) {
+    if (options.positive && numValue <= 0) {
+        throw createError("too_small", path, value, {min: 0, type: "number", exclusive: true}, options.message);
     }
-    else {
-        try {
-            numValue = parseFloat(string()(value, path));
-        }
-        catch (error) {
-            throw new ParsingError(`[${path ?? ""}] cannot be parsed as integer`, [{path, issue: "cannot be parsed as integer", rejectedValue: null}]);
-        }
+    if (options.nonNegative && numValue < 0) {
+        throw createError("too_small", path, value, {min: 0, type: "number"}, options.message);
+    }
+    if (options.min !== undefined && numValue < options.min) {
+        throw createError("too_small", path, value, {min: options.min, type: "number"}, options.message);
+    }
+    if (options.max !== undefined && numValue > options.max) {
+        throw createError("too_big", path, value, {max: options.max, type: "number"}, options.message);
     }
+    if (options.multipleOf !== undefined && !isMultipleOf(numValue, options.multipleOf)) {
+        throw createError("not_multiple_of", path, value, {multipleOf: options.multipleOf}, options.message);
+    }
+}
 
-    if (!Number.isInteger(numValue) || Number.isNaN(numValue)) {
-        throw new ParsingError(`[${path ?? ""}] cannot be parsed as integer`, [{path, issue: "cannot be parsed as integer", rejectedValue: null}]);
+export const int = (options: NumberOptions = {}) => createParser((value, path): number => {
+    let numValue: number;
+
+    try {
+        numValue = toNumber(value, path, options.strict ? strictInteger : undefined);
+    }
+    catch (error) {
+        throw createError("invalid_type", path, value, {expected: "integer"}, options.message);
     }
 
-    if (options.min !== undefined && numValue < options.min) {
-        throw new ParsingError(`[${path ?? ""}] is less than the allowed minimum (${options.min})`, [{path, issue: `less than the allowed minimum (${options.min})`, rejectedValue: numValue}]);
+    if (!Number.isInteger(numValue) || Number.isNaN(numValue)) {
+        throw createError("invalid_type", path, value, {expected: "integer"}, options.message);
     }
-    if (options.max !== undefined && numValue > options.max) {
-        throw new ParsingError(`[${path ?? ""}] is larger than the allowed maximum (${options.max})`, [{path, issue: `larger than the allowed maximum (${options.max})`, rejectedValue: numValue}]);
+    // precision is lost beyond 2^53, use bigint() for larger integers
+    if (options.strict && !Number.isSafeInteger(numValue)) {
+        throw createError(numValue > 0 ? "too_big" : "too_small", path, value,
+            numValue > 0 ? {max: Number.MAX_SAFE_INTEGER, type: "number"} : {min: Number.MIN_SAFE_INTEGER, type: "number"}, options.message);
     }
 
+    checkNumber(numValue, value, path, options);
     return numValue;
-});
+}, undefined, {kind: "int", options});
 
-export const float = (options: { min?: number; max?: number } = {}) => createParser((value, path): number => {
+export const float = (options: NumberOptions = {}) => createParser((value, path): number => {
     let numValue: number;
 
-    if (typeof value === 'number') {
-        numValue = value;
+    try {
+        numValue = toNumber(value, path, options.strict ? strictFloat : undefined);
     }
-    else {
-        try {
-            numValue = parseFloat(string()(value, path));
-        }
-        catch (error) {
-            throw new ParsingError(`[${path ?? ""}] cannot be parsed as float`, [{path, issue: "cannot be parsed as float", rejectedValue: null}]);
-        }
+    catch (error) {
+        throw createError("invalid_type", path, value, {expected: "float"}, options.message);
     }
 
     if (!Number.isFinite(numValue) || Number.isNaN(numValue)) {
-        throw new ParsingError(`[${path ?? ""}] cannot be parsed as float`, [{path, issue: "cannot be parsed as float", rejectedValue: null}]);
-    }
-
-    if (options.min !== undefined && numValue < options.min) {
-        throw new ParsingError(`[${path ?? ""}] is less than the allowed minimum (${options.min})`, [{path, issue: `less than the allowed minimum (${options.min})`, rejectedValue: numValue}]);
-    }
-    if (options.max !== undefined && numValue > options.max) {
-        throw new ParsingError(`[${path ?? ""}] is larger than the allowed maximum (${options.max})`, [{path, issue: `larger than the allowed maximum (${options.max})`, rejectedValue: numValue}]);
+        throw createError("invalid_type", path, value, {expected: "float"}, options.message);
     }
 
+    checkNumber(numValue, value, path, options);
     return numValue;
-});
+}, undefined, {kind: "float", options});
+
+export const bigint = (options: {
+    min?: bigint | number | string;
+    max?: bigint | number | string;
+    positive?: boolean;
+    nonNegative?: boolean;
+    multipleOf?: bigint | number | string;
+    message?: IssueMessage;
+} = {}) => {
+    const min = options.min === undefined ? undefined : BigInt(options.min);
+    const max = options.max === undefined ? undefined : BigInt(options.max);
+    const multipleOf = options.multipleOf === undefined ? undefined : BigInt(options.multipleOf);
+
+    return createParser((value, path): bigint => {
+        let bigValue: bigint;
+
+        if (typeof value === 'bigint') {
+            bigValue = value;
+        }
+        else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+            bigValue = BigInt(value);
+        }
+        else {
+            let strValue: string | undefined;
+            try {
+                strValue = typeof value === 'number' ? undefined : string()(value, path);
+            }
+            catch (error) {}
+            // integers only, BigInt() would also accept hex, binary and empty strings
+            if (strValue === undefined || !strictInteger.test(strValue)) {
+                throw createError("invalid_type", path, value, {expected: "bigint"}, options.message);
+            }
+            bigValue = BigInt(strValue);
+        }
+
+        if (options.positive && bigValue <= 0n) {
+            throw createError("too_small", path, value, {min: "0", type: "number", exclusive: true}, options.message);
+        }
+        if (options.nonNegative && bigValue < 0n) {
+            throw createError("too_small", path, value, {min: "0", type: "number"}, options.message);
+        }
+        if (min !== undefined && bigValue < min) {
+            throw createError("too_small", path, value, {min: min.toString(), type: "number"}, options.message);
+        }
+        if (max !== undefined && bigValue > max) {
+            throw createError("too_big", path, value, {max: max.toString(), type: "number"}, options.message);
+        }
+        if (multipleOf !== undefined && bigValue % multipleOf !== 0n) {
+            throw createError("not_multiple_of", path, value, {multipleOf: multipleOf.toString()}, options.message);
+        }
+
+        return bigValue;
+    }, undefined, {kind: "bigint", options});
+};
+
+// sign, integer digits without leading zeros and fraction digits of a decimal string
+type DecimalParts = {negative: boolean, integer: string, fraction: string};
+
+function decimalParts(value: string): DecimalParts | undefined {
+    const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(value);
+    if (!match || (match[2] ?? "") + (match[3] ?? "") === "") return undefined;
+    const integer = (match[2] ?? "").replace(/^0+/, "");
+    const fraction = match[3] ?? "";
+    const zero = /^0*$/.test(integer + fraction);
+    return {negative: match[1] === "-" && !zero, integer, fraction};
+}
+
+function formatDecimal({negative, integer, fraction}: DecimalParts): string {
+    return `${negative ? "-" : ""}${integer || "0"}${fraction ? `.${fraction}` : ""}`;
+}
+
+function compareDecimals(a: DecimalParts, b: DecimalParts): number {
+    if (a.negative !== b.negative) return a.negative ? -1 : 1;
+    const sign = a.negative ? -1 : 1;
+    if (a.integer.length !== b.integer.length) return sign * (a.integer.length - b.integer.length);
+    const length = Math.max(a.fraction.length, b.fraction.length);
+    const digitsA = a.integer + a.fraction.padEnd(length, "0");
+    const digitsB = b.integer + b.fraction.padEnd(length, "0");
+    return digitsA === digitsB ? 0 : sign * (digitsA < digitsB ? -1 : 1);
+}
+
+/**
+ * Parses an arbitrary-precision decimal number, returned as an exact string (e.g. "-12.50").
+ * precision limits the number of significant digits, scale the number of fraction digits
+ */
+export const decimal = (options: {
+    precision?: number;
+    scale?: number;
+    min?: string | number;
+    max?: string | number;
+    message?: IssueMessage;
+} = {}) => {
+    const bound = (limit: string | number | undefined) => limit === undefined ? undefined : decimalParts(String(limit));
+    const min = bound(options.min);
+    const max = bound(options.max);
+
+    return createParser((value, path): string => {
+        let parts: DecimalParts | undefined;
+        if (typeof value === 'bigint' || typeof value === 'number' && Number.isFinite(value)) {
+            // numbers with exponents (1e21, 1e-7) are rejected as inexact
+            parts = decimalParts(value.toString());
+        }
+        else if (typeof value !== 'number') {
+            try {
+                parts = decimalParts(string()(value, path).trim());
+            }
+            catch (error) {}
+        }
+        if (!parts) {
+            throw createError("invalid_type", path, value, {expected: "decimal"}, options.message);
+        }
+
+        if (options.scale !== undefined && parts.fraction.length > options.scale) {
+            throw createError("too_big", path, value, {max: options.scale, type: "scale"}, options.message);
+        }
+        const digits = (parts.integer + parts.fraction).replace(/^0+/, "").length;
+        if (options.precision !== undefined && digits > options.precision) {
+            throw createError("too_big", path, value, {max: options.precision, type: "precision"}, options.message);
+        }
+        if (min && compareDecimals(parts, min) < 0) {
+            throw createError("too_small", path, value, {min: formatDecimal(min), type: "number"}, options.message);
+        }
+        if (max && compareDecimals(parts, max) > 0) {
+            throw createError("too_big", path, value, {max: formatDecimal(max), type: "number"}, options.message);
+        }
+
+        return formatDecimal(parts);
+    }, undefined, {kind: "decimal", options});
+};
 
-export const boolean = () => createParser((value, path): boolean => {
+export const boolean = (options: { message?: IssueMessage } = {}) => createParser((value, path): boolean => {
     if (typeof value === 'boolean') {
         return value;
     }
@@ -141,5 +326,5 @@ export const boolean = () => createParser((value, path): boolean => {
         catch (error) {}
     }
 
-    throw new ParsingError(`[${path}] cannot be converted to boolean`, [{path, issue: "cannot be converted to boolean", rejectedValue: null}]);
-})
\ No newline at end of file
+    throw createError("invalid_type", path, value, {expected: "boolean"}, options.message);
+}, undefined, {kind: "boolean", options})
\ No newline at end of file
@@ -0,0 +1,163 @@
+import {StringDecoder} from "node:string_decoder";
+import {Readable} from "node:stream";
+import {createError, createParser, toPath, type FieldPath, type IssueMessage, type Parser, isFile} from "./base.js";
+import {object, type ObjectParser, type ObjectResult} from "./object.js";
+import {parseRecords} from "./json.js";
+
+export type CSVOptions = {
+    // "," by default, use "\t" for TSV
+    delimiter?: string;
+    // '"' by default, quotes inside quoted values are doubled
+    quote?: string;
+    // true (default) - the first row contains column names, false - columns are mapped to the shape keys in order,
+    // or the list of column names
+    header?: boolean | Array<string>;
+    // column name -> shape key
+    rename?: Record<string, string>;
+    // true by default
+    skipEmptyLines?: boolean;
+    // throw - stop at the first invalid row (default), collect - skip invalid rows and throw all their errors after the last one
+    errors?: "throw" | "collect";
+    // maximum number of data rows, reading stops when there are more
+    maxRecords?: number;
+    message?: IssueMessage;
+};
+
+// undefined for empty unquoted values
+type CSVRecord = Array<string | undefined>;
+
+/**
+ * Reads CSV records from the stream, with the row number (starting from 1, including the header row) of each record.
+ * Quoted values can contain delimiters, quotes (doubled) and line breaks, a quoted value which isn't closed at the end
+ * is reported as an invalid_format issue at the path of its row
+ */
+async function* readCSVRecords(stream: NodeJS.ReadableStream, path: FieldPath, options: CSVOptions): AsyncGenerator<[number, CSVRecord]> {
+    const delimiter = options.delimiter ?? ",";
+    const quote = options.quote ?? '"';
+    const decoder = new StringDecoder("utf8");
+
+    let row = 0;
+    let record: CSVRecord = [];
+    let field = "";
+    let quoted = false;
+    // inside quotes / right after the closing quote
+    let inQuotes = false;
+    let afterQuote = false;
+    let skipLF = false;
+    let started = false;
+
+    const endField = () => {
+        record.push(quoted || field !== "" ? field : undefined);
+        field = "";
+        quoted = false;
+        afterQuote = false;
+    };
+
+    const endRecord = (records: Array<[number, CSVRecord]>) => {
+        endField();
+        row++;
+        const empty = record.length === 1 && record[0] === undefined;
+        if (!empty || options.skipEmptyLines === false) records.push([row, record]);
+        record = [];
+    };
+
+    const process = (text: string): Array<[number, CSVRecord]> => {
+        const records: Array<[number, CSVRecord]> = [];
+        if (!started && text.length > 0) {
+            started = true;
+            if (text.startsWith("\uFEFF")) text = text.slice(1);
+        }
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i]!;
+            if (skipLF) {
+                skipLF = false;
+                if (char === "\n") continue;
+            }
+            if (inQuotes) {
+                if (char === quote) {
+                    inQuotes = false;
+                    afterQuote = true;
+                }
+                else {
+                    field += char;
+                }
+                continue;
+            }
+            if (char === quote && (field === "" && !quoted || afterQuote)) {
+                // after the closing quote it's a doubled quote inside the value
+                if (afterQuote) field += quote;
+                quoted = true;
+                inQuotes = true;
+                afterQuote = false;
+            }
+            else if (char === delimiter) {
+                endField();
+            }
+            else if (char === "\n" || char === "\r") {
+                skipLF = char === "\r";
+                endRecord(records);
+            }
+            else {
+                field += char;
+                afterQuote = false;
+            }
+        }
+        return records;
+    };
+
+    for await (const chunk of stream) {
+        yield* process(typeof chunk === "string" ? chunk : decoder.write(chunk));
+    }
+    const records = process(decoder.end());
+    if (inQuotes) {
+        yield* records;
+        throw createError("invalid_format", [...path, row + 1], undefined, {format: "csv", row: row + 1, reason: "unclosed quoted value"}, options.message);
+    }
+    if (field !== "" || quoted || record.length > 0) endRecord(records);
+    yield* records;
+}
+
+function toStream(value: unknown): NodeJS.ReadableStream | undefined {
+    if (isFile(value)) return value.createReadStream();
+    if (typeof value === "string" || value instanceof Buffer) return Readable.from([Buffer.from(value)]);
+    return undefined;
+}
+
+/**
+ * Parses CSV (or TSV) into an async iterable of rows. Columns are mapped to the keys of the row shape
+ * and values are coerced by its parsers, rows are read and parsed one by one while iterating.
+ * The path of a value is [...path, row number, shape key], empty unquoted values are treated as missing.
+ * Raw values can be files (e.g. from multipart/form-data), strings or Buffers
+ *
+ * @param row - shape (or object parser) of a row
+ * @param options - delimiter, quote, header, rename, skipEmptyLines, error mode and maxRecords
+ */
+export const csv = <T extends Record<string, unknown>>(
+    row: { [K in keyof T]: Parser<T[K]> } | ObjectParser<T>,
+    options: CSVOptions = {}
+) => {
+    const rowParser = (typeof row === "function" ? row : object(row)) as ObjectParser<T>;
+
+    async function* mapColumns(records: AsyncIterable<[number, CSVRecord]>): AsyncGenerator<[number, Record<string, string | undefined>]> {
+        const rename = (columns: Array<string>) => columns.map(name => options.rename?.[name] ?? name);
+        let names = Array.isArray(options.header) ? rename(options.header) : options.header === false ? Object.keys(rowParser.shape) : undefined;
+        for await (const [number, record] of records) {
+            if (!names) {
+                names = rename(record.map((name, index) => name ?? String(index)));
+                continue;
+            }
+            // empty values are left out, so they're reported as required
+            const values = record.map((value, index): [string, string | undefined] => [names![index] ?? String(index), value]);
+            yield [number, Object.fromEntries(values.filter(([, value]) => value !== undefined))];
+        }
+    }
+
+    const iterate = (stream: NodeJS.ReadableStream, path: FieldPath): AsyncIterable<ObjectResult<T>> =>
+        parseRecords(mapColumns(readCSVRecords(stream, path, options)), value => value, rowParser, path, options);
+
+    return createParser((value, path): AsyncIterable<ObjectResult<T>> => {
+        const stream = toStream(value);
+        if (!stream) throw createError("invalid_type", path, value, {expected: "CSV"}, options.message);
+        return iterate(stream, toPath(path));
+    }, () => async (stream, path): Promise<AsyncIterable<ObjectResult<T>>> => iterate(stream, toPath(path)), {kind: "csv", options, inner: rowParser});
+};
@@ -0,0 +1,306 @@
+import {createParser, createError, type FieldPath, type IssueMessage} from "./base.js";
+import {string} from "./basic.js";
+
+// utc - strings without an offset are UTC (default), local - they're in the local time zone, required - the offset is required
+export type Timezone = "utc" | "local" | "required";
+
+export type DateOptions = {
+    min?: Date | string | number;
+    max?: Date | string | number;
+    // custom formats tried after ISO 8601, tokens: YYYY, MM, DD, HH, mm, ss, SSS, Z (offset), other characters are literal
+    formats?: Array<string>;
+    // unit of numbers and numeric strings, milliseconds by default
+    epoch?: "seconds" | "milliseconds";
+    timezone?: Timezone;
+    message?: IssueMessage;
+};
+
+type DateParts = {
+    year: number;
+    month: number;
+    day: number;
+    hour?: number;
+    minute?: number;
+    second?: number;
+    millisecond?: number;
+    // minutes east of UTC
+    offset?: number;
+};
+
+const isoDateTime = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?(Z|[+-]\d{2}(?::?\d{2})?)?)?$/i;
+const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/;
+const isoTime = /^(\d{2}):(\d{2})(?::(\d{2})(?:[.,](\d{1,9}))?)?(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+const isoDuration = /^(-)?P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+const numeric = /^-?\d+(\.\d+)?$/;
+
+type FormatParser = (value: string) => DateParts | undefined;
+
+const formatTokens: Record<string, [string, keyof DateParts]> = {
+    YYYY: ["(\\d{4})", "year"],
+    MM: ["(\\d{2})", "month"],
+    DD: ["(\\d{2})", "day"],
+    HH: ["(\\d{2})", "hour"],
+    mm: ["(\\d{2})", "minute"],
+    ss: ["(\\d{2})", "second"],
+    SSS: ["(\\d{3})", "millisecond"],
+    Z: ["(Z|[+-]\\d{2}(?::?\\d{2})?)", "offset"]
+};
+
+// "+02:00" -> 120
+function parseOffset(offset: string | undefined): number | undefined {
+    if (offset === undefined) return undefined;
+    if (offset.toUpperCase() === "Z") return 0;
+    const sign = offset.startsWith("-") ? -1 : 1;
+    const digits = offset.slice(1).replace(":", "");
+    return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0));
+}
+
+// ".5" -> 500
+const fraction = (digits: string | undefined) => digits ? Math.floor(Number(`0.${digits}`) * 1000) : 0;
+
+function compileFormat(format: string): FormatParser {
+    const keys: Array<keyof DateParts> = [];
+    const source = format.replace(/YYYY|MM|DD|HH|mm|ss|SSS|Z|[.*+?^${}()|[\]\\]/g, token => {
+        const known = formatTokens[token];
+        if (!known) return `\\${token}`;
+        keys.push(known[1]);
+        return known[0];
+    });
+    const pattern = new RegExp(`^${source}$`);
+    return value => {
+        const match = pattern.exec(value);
+        if (!match) return undefined;
+        const parts: Record<string, number | undefined> = {year: 1970, month: 1, day: 1};
+        keys.forEach((key, index) => {
+            parts[key] = key === "offset" ? parseOffset(match[index + 1]) : Number(match[index + 1]);
+        });
+        return parts as DateParts;
+    };
+}
+
+function parseISO(value: string): DateParts | undefined {
+    const match = isoDateTime.exec(value);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second, ms, offset] = match;
+    return {
+        year: Number(year), month: Number(month), day: Number(day),
+        hour: hour === undefined ? undefined : Number(hour),
+        minute: minute === undefined ? undefined : Number(minute),
+        second: second === undefined ? undefined : Number(second),
+        millisecond: fraction(ms),
+        offset: parseOffset(offset)
+    };
+}
+
+// undefined for dates which don't exist (e.g. February 30) or out of range times
+function toDate(parts: DateParts, timezone: Timezone): Date | undefined {
+    const {year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0} = parts;
+    if (hour > 23 || minute > 59 || second > 59) return undefined;
+    const utc = new Date(Date.UTC(year, month - 1, day, hour, minute, second, millisecond));
+    // Date.UTC maps years 0-99 to 1900-1999
+    utc.setUTCFullYear(year, month - 1, day);
+    if (utc.getUTCFullYear() !== year || utc.getUTCMonth() !== month - 1 || utc.getUTCDate() !== day) return undefined;
+    if (parts.offset !== undefined) return new Date(utc.getTime() - parts.offset * 60 * 1000);
+    if (timezone === "local") return new Date(year, month - 1, day, hour, minute, second, millisecond);
+    return utc;
+}
+
+function parseDateValue(value: unknown, options: DateOptions, formats: Array<FormatParser>, path?: string | FieldPath): Date {
+    const invalid = () => createError("invalid_type", path, value, {expected: "date"}, options.message);
+    const fromEpoch = (epoch: number) => new Date(options.epoch === "seconds" ? epoch * 1000 : epoch);
+
+    let date: Date | undefined;
+    if (value instanceof Date) {
+        date = value;
+    }
+    else if (typeof value === "number") {
+        date = fromEpoch(value);
+    }
+    else {
+        let strValue: string;
+        try {
+            strValue = string()(value, path).trim();
+        }
+        catch (error) {
+            throw invalid();
+        }
+        if (numeric.test(strValue)) {
+            date = fromEpoch(parseFloat(strValue));
+        }
+        else {
+            const parts = [parseISO, ...formats].reduce<DateParts | undefined>((found, parse) => found ?? parse(strValue), undefined);
+            if (!parts) throw invalid();
+            if (parts.offset === undefined && options.timezone === "required") {
+                throw createError("invalid_format", path, value, {format: "date-time-offset"}, options.message);
+            }
+            date = toDate(parts, options.timezone ?? "utc");
+        }
+    }
+
+    if (!date || Number.isNaN(date.getTime())) throw invalid();
+    return date;
+}
+
+/**
+ * Parses ISO 8601 strings (2024-05-01, 2024-05-01T10:00:00+02:00), epoch numbers and numeric strings,
+ * strings of custom formats and Date objects into a Date
+ */
+export const date = (options: DateOptions = {}) => {
+    const formats = (options.formats ?? []).map(compileFormat);
+    const limit = (bound: Date | string | number | undefined) => bound === undefined ? undefined : parseDateValue(bound, {...options, message: undefined}, formats);
+    const min = limit(options.min);
+    const max = limit(options.max);
+
+    return createParser((value, path): Date => {
+        const result = parseDateValue(value, options, formats, path);
+        if (min && result < min) {
+            throw createError("too_small", path, value, {min: min.toISOString(), type: "date"}, options.message);
+        }
+        if (max && result > max) {
+            throw createError("too_big", path, value, {max: max.toISOString(), type: "date"}, options.message);
+        }
+        return result;
+    }, undefined, {kind: "date", options});
+};
+
+/**
+ * Parses a calendar date without time (2024-05-01), returned as the string. Date objects are converted to their UTC date
+ */
+export const isoDateOnly = (options: { min?: string; max?: string; message?: IssueMessage } = {}) => createParser((value, path): string => {
+    let strValue: string;
+    try {
+        strValue = value instanceof Date ? value.toISOString().slice(0, 10) : string()(value, path).trim();
+    }
+    catch (error) {
+        throw createError("invalid_type", path, value, {expected: "date"}, options.message);
+    }
+
+    const match = isoDate.exec(strValue);
+    if (!match || !toDate({year: Number(match[1]), month: Number(match[2]), day: Number(match[3])}, "utc")) {
+        throw createError("invalid_format", path, value, {format: "date"}, options.message);
+    }
+
+    // ISO dates are compared as strings
+    if (options.min !== undefined && strValue < options.min) {
+        throw createError("too_small", path, value, {min: options.min, type: "date"}, options.message);
+    }
+    if (options.max !== undefined && strValue > options.max) {
+        throw createError("too_big", path, value, {max: options.max, type: "date"}, options.message);
+    }
+
+    return strValue;
+}, undefined, {kind: "isoDateOnly", options});
+
+// "10:30:15.5" -> milliseconds since midnight
+function timeOfDay(value: string): number | undefined {
+    const match = isoTime.exec(value);
+    if (!match) return undefined;
+    const [, hour, minute, second = "0", ms] = match;
+    if (Number(hour) > 23 || Number(minute) > 59 || Number(second) > 59) return undefined;
+    return ((Number(hour) * 60 + Number(minute)) * 60 + Number(second)) * 1000 + fraction(ms);
+}
+
+/**
+ * Parses a time of day (10:30, 10:30:15, 10:30:15.250, optionally with an offset), returned as the string
+ */
+export const time = (options: { min?: string; max?: string; timezone?: Timezone; message?: IssueMessage } = {}) => createParser((value, path): string => {
+    let strValue: string;
+    try {
+        strValue = string()(value, path).trim();
+    }
+    catch (error) {
+        throw createError("invalid_type", path, value, {expected: "time"}, options.message);
+    }
+
+    const milliseconds = timeOfDay(strValue);
+    if (milliseconds === undefined) {
+        throw createError("invalid_format", path, value, {format: "time"}, options.message);
+    }
+    if (options.timezone === "required" && !/(Z|[+-]\d{2}(:?\d{2})?)$/i.test(strValue)) {
+        throw createError("invalid_format", path, value, {format: "time-offset"}, options.message);
+    }
+
+    if (options.min !== undefined && milliseconds < (timeOfDay(options.min) ?? 0)) {
+        throw createError("too_small", path, value, {min: options.min, type: "time"}, options.message);
+    }
+    if (options.max !== undefined && milliseconds > (timeOfDay(options.max) ?? Infinity)) {
+        throw createError("too_big", path, value, {max: options.max, type: "time"}, options.message);
+    }
+
+    return strValue;
+}, undefined, {kind: "time", options});
+
+export type Duration = {
+    years: number;
+    months: number;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    // the whole duration is negative (-P1D)
+    negative: boolean;
+};
+
+const durationUnits = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"] as const;
+// approximate lengths in seconds, used to compare durations (a month is 30 days, a year is 365 days)
+const unitSeconds: Record<typeof durationUnits[number], number> = {years: 31536000, months: 2592000, weeks: 604800, days: 86400, hours: 3600, minutes: 60, seconds: 1};
+
+function parseDuration(value: string): Duration | undefined {
+    const match = isoDuration.exec(value);
+    // "P" and "PT" without any component aren't durations
+    if (!match || match.slice(2).every(part => part === undefined) || value.toUpperCase().endsWith("T")) return undefined;
+    const duration = {negative: match[1] === "-"} as Duration;
+    durationUnits.forEach((unit, index) => {
+        duration[unit] = Number((match[index + 2] ?? "0").replace(",", "."));
+    });
+    return duration;
+}
+
+function durationSeconds(duration: Duration): number {
+    const seconds = durationUnits.reduce((total, unit) => total + duration[unit] * unitSeconds[unit], 0);
+    return duration.negative ? -seconds : seconds;
+}
+
+function toDuration(value: unknown, path?: string | FieldPath, message?: IssueMessage): Duration {
+    const invalid = () => createError("invalid_type", path, value, {expected: "duration"}, message);
+    // numbers are seconds
+    const fromSeconds = (seconds: number): Duration => ({years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: Math.abs(seconds), negative: seconds < 0});
+
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) throw invalid();
+        return fromSeconds(value);
+    }
+    let strValue: string;
+    try {
+        strValue = string()(value, path).trim();
+    }
+    catch (error) {
+        throw invalid();
+    }
+    if (numeric.test(strValue)) return fromSeconds(parseFloat(strValue));
+    const duration = parseDuration(strValue);
+    if (!duration) throw createError("invalid_format", path, value, {format: "duration"}, message);
+    return duration;
+}
+
+/**
+ * Parses an ISO 8601 duration (P1Y2M10DT2H30M, PT15S, P2W) or a number of seconds into its components.
+ * min and max (durations or seconds) are compared with a month of 30 days and a year of 365 days
+ */
+export const duration = (options: { min?: string | number; max?: string | number; message?: IssueMessage } = {}) => {
+    const min = options.min === undefined ? undefined : durationSeconds(toDuration(options.min));
+    const max = options.max === undefined ? undefined : durationSeconds(toDuration(options.max));
+
+    return createParser((value, path): Duration => {
+        const result = toDuration(value, path, options.message);
+        const seconds = durationSeconds(result);
+        if (min !== undefined && seconds < min) {
+            throw createError("too_small", path, value, {min: options.min, type: "duration"}, options.message);
+        }
+        if (max !== undefined && seconds > max) {
+            throw createError("too_big", path, value, {max: options.max, type: "duration"}, options.message);
+        }
+        return result;
+    }, undefined, {kind: "duration", options});
+};
@@ -0,0 +1,125 @@
+import net from "net";
+import {createParser, createError, type IssueMessage} from "./base.js";
+import {string, type StringOptions} from "./basic.js";
+
+// Parses a string (with string options) and checks its format, failed checks are reported as invalid_format issues
+const format = (kind: string, test: (value: string) => boolean, options: StringOptions, params: Record<string, unknown> = {}) => createParser((value, path): string => {
+    const strValue = string(options)(value, path);
+    if (!test(strValue)) {
+        throw createError("invalid_format", path, value, {format: kind, ...params}, options.message);
+    }
+    return strValue;
+}, undefined, {kind, options});
+
+/**
+ * Parses an absolute URL, protocols restrict the scheme (e.g. ["https"])
+ */
+export const url = (options: StringOptions & { protocols?: Array<string> } = {}) => format("url", value => {
+    if (!URL.canParse(value)) return false;
+    const protocol = new URL(value).protocol.slice(0, -1);
+    return !options.protocols || options.protocols.some(allowed => allowed.toLowerCase() === protocol);
+}, options, options.protocols ? {protocols: options.protocols} : {});
+
+export const ipv4 = (options: StringOptions = {}) => format("ipv4", value => net.isIPv4(value), options);
+
+export const ipv6 = (options: StringOptions = {}) => format("ipv6", value => net.isIPv6(value), options);
+
+// 192.168.0.0/16, 2001:db8::/32
+function isCIDR(value: string, version?: 4 | 6): boolean {
+    const [address = "", prefix, ...rest] = value.split("/");
+    if (prefix === undefined || rest.length > 0 || !/^\d{1,3}$/.test(prefix)) return false;
+    const ipVersion = net.isIP(address);
+    if (ipVersion === 0 || version !== undefined && ipVersion !== version) return false;
+    return Number(prefix) <= (ipVersion === 4 ? 32 : 128);
+}
+
+/**
+ * Parses an IPv4 or IPv6 network in CIDR notation, version restricts it to one of them
+ */
+export const cidr = (options: StringOptions & { version?: 4 | 6 } = {}) => format("cidr", value => isCIDR(value, options.version), options);
+
+const hostnameLabel = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+/**
+ * Parses a host name (RFC 1123): dot separated labels of letters, digits and hyphens
+ */
+export const hostname = (options: StringOptions = {}) => format("hostname", value => {
+    const name = value.endsWith(".") ? value.slice(0, -1) : value;
+    return name.length > 0 && name.length <= 253 && name.split(".").every(label => hostnameLabel.test(label));
+}, options);
+
+// semver.org regex
+const semverPattern = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+// patterns of formats without flags, so they can be used in JSON Schemas too
+export const formatPatterns: Record<string, RegExp> = {
+    ulid: /^[0-7][0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{25}$/,
+    cuid: /^[cC][a-zA-Z0-9]{8,}$/,
+    semver: semverPattern,
+    hex: /^(0[xX])?[0-9a-fA-F]+$/,
+    // structure only, the parts are decoded by the parser
+    jwt: /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/,
+    phone: /^\+[1-9]\d{1,14}$/,
+    slug: /^[a-z0-9]+(?:-[a-z0-9]+)*$/
+};
+
+export const ulid = (options: StringOptions = {}) => format("ulid", value => formatPatterns.ulid!.test(value), options);
+
+export const cuid = (options: StringOptions = {}) => format("cuid", value => formatPatterns.cuid!.test(value), options);
+
+export const semver = (options: StringOptions = {}) => format("semver", value => semverPattern.test(value), options);
+
+const base64Pattern = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+// padding is optional in base64url
+const base64urlPattern = /^[A-Za-z0-9_-]*$/;
+
+const decoder = (kind: "base64" | "base64url", pattern: RegExp, options: { message?: IssueMessage }) => createParser((value, path): Buffer => {
+    if (Buffer.isBuffer(value)) return value;
+    let strValue = string()(value, path);
+    if (kind === "base64url") strValue = strValue.replace(/=+$/, "");
+    if (!pattern.test(strValue) || strValue.length % 4 === 1) {
+        throw createError("invalid_format", path, value, {format: kind}, options.message);
+    }
+    return Buffer.from(strValue, kind);
+}, undefined, {kind, options});
+
+/**
+ * Decodes a base64 string into a Buffer
+ */
+export const base64 = (options: { message?: IssueMessage } = {}) => decoder("base64", base64Pattern, options);
+
+/**
+ * Decodes a base64url string (padding is optional) into a Buffer
+ */
+export const base64url = (options: { message?: IssueMessage } = {}) => decoder("base64url", base64urlPattern, options);
+
+export const hex = (options: StringOptions = {}) => format("hex", value => formatPatterns.hex!.test(value), options);
+
+function decodeJSON(part: string): unknown {
+    try {
+        return JSON.parse(Buffer.from(part, "base64url").toString());
+    }
+    catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Checks the structure of a JWT: three base64url parts, the header and the payload are JSON objects.
+ * The signature isn't verified, algorithms restrict the alg of the header
+ */
+export const jwt = (options: StringOptions & { algorithms?: Array<string> } = {}) => format("jwt", value => {
+    const parts = value.split(".");
+    if (parts.length !== 3 || !parts.every(part => base64urlPattern.test(part))) return false;
+    const [header, payload] = parts.slice(0, 2).map(decodeJSON) as [Record<string, unknown> | undefined, unknown];
+    if (typeof header !== "object" || header === null || typeof header.alg !== "string") return false;
+    if (typeof payload !== "object" || payload === null) return false;
+    return !options.algorithms || options.algorithms.includes(header.alg);
+}, options, options.algorithms ? {algorithms: options.algorithms} : {});
+
+/**
+ * Parses a phone number in E.164 format (+14155552671)
+ */
+export const phone = (options: StringOptions = {}) => format("phone", value => formatPatterns.phone!.test(value), options);
+
+export const slug = (options: StringOptions = {}) => format("slug", value => formatPatterns.slug!.test(value), options);
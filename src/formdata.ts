@@ -35,17 +35,27 @@ function parseOptions(options: Partial<FormDataParseOptions>): string | null {
     return null;
 }
 
-async function createBusBoy(boundary: string, busboyConfig: Busboy.BusboyConfig = {}, stream: NodeJS.ReadableStream, searchBuffer: Buffer = Buffer.alloc(0)): Promise<[Busboy.Busboy, () => void]> {
+// start receives the bytes passed to busboy (also the ones read while searching the boundary)
+type StartFn = (onChunk?: (chunk: Buffer | string) => void) => void;
+
+async function createBusBoy(boundary: string, busboyConfig: Busboy.BusboyConfig = {}, stream: NodeJS.ReadableStream, searchBuffer: Buffer = Buffer.alloc(0)): Promise<[Busboy.Busboy, StartFn]> {
     // Create busboy with extracted boundary
     const headers = { 'content-type': `multipart/form-data; boundary=${boundary}` };
     const busboy = Busboy({ ...busboyConfig, headers });
 
-    return [busboy, () => {
+    return [busboy, onChunk => {
         // Write the buffered data to busboy
         busboy.write(searchBuffer);
-        // Resume and pipe the remaining stream
-        stream.resume();
-        stream.pipe(busboy);
+        // Resume and pipe the remaining stream, a stream which already ended (e.g. read whole while searching the boundary) won't end busboy by itself
+        if ((stream as any).readableEnded) busboy.end();
+        else {
+            stream.resume();
+            stream.pipe(busboy);
+        }
+        if (onChunk) {
+            stream.on('data', onChunk);
+            onChunk(searchBuffer);
+        }
     }];
 }
 
@@ -57,9 +67,9 @@ async function createBusBoy(boundary: string, busboyConfig: Busboy.BusboyConfig
  * @param stream - The Node.js Readable stream containing the multipart/form-data body.
  * @param busboyConfig - config for Busboy
  * @param options - Use it if you probably have a boundary. If parser cannot find boundary in options it will try to extract it from stream
- * @returns Busboy instance and a start function which will pipe stream to busboy
+ * @returns Busboy instance and a start function which will pipe stream to busboy, its optional callback receives all chunks of the body
  */
-export function readFormData(stream: NodeJS.ReadableStream, busboyConfig: Busboy.BusboyConfig = {}, options: Partial<FormDataParseOptions> = {}): Promise<[Busboy.Busboy, () => void]> {
+export function readFormData(stream: NodeJS.ReadableStream, busboyConfig: Busboy.BusboyConfig = {}, options: Partial<FormDataParseOptions> = {}): Promise<[Busboy.Busboy, StartFn]> {
     let boundary = parseOptions(options);
     if (boundary) return createBusBoy(boundary, busboyConfig, stream);
     return new Promise((resolve, reject) => {
@@ -94,8 +104,7 @@ export function readFormData(stream: NodeJS.ReadableStream, busboyConfig: Busboy
                     const firstLine = searchBuffer.subarray(0, crlfIndex).toString('utf-8');
                     if (firstLine.startsWith('--')) {
                         boundary = firstLine.slice(2);
-                        stream.removeListener('readable', onReadable);
-                        stream.removeListener('error', reject);
+                        cleanup();
 
                         resolve(createBusBoy(boundary, busboyConfig, stream, searchBuffer));
 
@@ -108,8 +117,21 @@ export function readFormData(stream: NodeJS.ReadableStream, busboyConfig: Busboy
             }
         };
 
+        const onEnd = () => {
+            cleanup();
+            reject(new Error('Invalid multipart/form-data: body ends before the first boundary'));
+        };
+
+        const cleanup = () => {
+            stream.removeListener('readable', onReadable);
+            stream.removeListener('end', onEnd);
+            stream.removeListener('error', reject);
+        };
+
         stream.on('readable', onReadable);
         stream.on('error', reject);
+        if ((stream as any).readableEnded) process.nextTick(onEnd);
+        else stream.on('end', onEnd);
 
         // Kickstart reading if data is already available
         onReadable();
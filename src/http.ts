@@ -0,0 +1,317 @@
+import {Readable} from "node:stream";
+import type {ReadableStream as WebReadableStream} from "node:stream/web";
+import {STATUS_CODES} from "node:http";
+import {type Parser, type FieldError, ParsingError, mergeErrors} from "./base.js";
+import {fromUrlencoded} from "./urlencoded.js";
+
+export type RequestParsers = {
+    body?: Parser<unknown>;
+    query?: Parser<unknown>;
+    params?: Parser<unknown>;
+    headers?: Parser<unknown>;
+};
+
+export type ParsedRequest<S extends RequestParsers> = { [K in keyof S]: S[K] extends Parser<infer U> ? U : never };
+
+type RequestHeaders = Record<string, string | Array<string> | undefined>;
+
+// Parts of a request: the body is either a stream which wasn't read yet or a value parsed by the framework
+export type RequestInput = {
+    body?: {stream: NodeJS.ReadableStream} | {value: unknown};
+    query?: unknown;
+    params?: unknown;
+    headers?: RequestHeaders;
+};
+
+export type ProblemDetails = {
+    type: string;
+    title: string;
+    status: number;
+    detail: string;
+    errors: Array<Omit<FieldError, "rejectedValue">>;
+};
+
+// Structural types of the framework objects, so the frameworks aren't dependencies
+export interface NodeRequest extends NodeJS.ReadableStream {
+    url?: string;
+    headers: RequestHeaders;
+    readableEnded?: boolean;
+}
+
+export interface NodeResponse {
+    statusCode: number;
+    headersSent?: boolean;
+    setHeader(name: string, value: string): unknown;
+    end(body?: string): unknown;
+}
+
+export interface ExpressRequest extends NodeRequest {
+    body?: unknown;
+    query?: unknown;
+    params?: unknown;
+    parsed?: unknown;
+}
+
+export interface FastifyRequest {
+    raw: NodeRequest;
+    body?: unknown;
+    params?: unknown;
+    headers: RequestHeaders;
+    parsed?: unknown;
+}
+
+export interface FastifyReply {
+    code(status: number): FastifyReply;
+    header(name: string, value: string): FastifyReply;
+    send(payload?: unknown): FastifyReply;
+}
+
+export interface KoaContext {
+    req: NodeRequest;
+    request: {body?: unknown};
+    params?: unknown;
+    headers: RequestHeaders;
+    state: Record<string, unknown>;
+    status: number;
+    type: string;
+    body: unknown;
+}
+
+export interface HonoContext {
+    req: {
+        raw: Request;
+        param(): Record<string, string>;
+    };
+    set(key: "parsed", value: unknown): void;
+}
+
+const partNames = ["body", "query", "params", "headers"] as const;
+
+/**
+ * Parses parts of a request with the given parsers. Paths of issues start with the part name (body, query, params, headers).
+ * Issues of all parts are reported together in one ParsingError
+ */
+export async function parseRequest<S extends RequestParsers>(parsers: S, input: RequestInput): Promise<ParsedRequest<S>> {
+    const streamOptions = {headers: input.headers};
+    const results = await Promise.all(partNames.map(async part => {
+        const parser = parsers[part];
+        if (!parser) return undefined;
+        if (part !== "body") return parser.async.safe(input[part], part);
+        const body = input.body;
+        if (body && "stream" in body) return parser.stream.safe(body.stream, part, streamOptions);
+        return parser.async.safe(body?.value, part);
+    }));
+
+    const errors: Array<ParsingError> = [];
+    const parsed: Record<string, unknown> = {};
+    results.forEach((result, index) => {
+        if (!result) return;
+        if (result.ok) parsed[partNames[index]!] = result.value;
+        else errors.push(result.error);
+    });
+    if (errors.length > 0) throw mergeErrors(errors);
+    return parsed as ParsedRequest<S>;
+}
+
+// Malformed bodies are 400, too large bodies (or too many uploads) 413, unsupported media types 415, other issues 422.
+// Rejected file types of single fields are 422, like other field issues
+export function problemStatus(error: ParsingError): number {
+    const codes = error.fields.map(field => field.code);
+    if (error.fields.some(field => field.code === "unsupported_media_type" && field.path.length <= 1)) return 415;
+    if (error.fields.some(field => field.code === "too_big" && ["bytes", "file", "files", "fields"].includes(field.params.type as string))) return 413;
+    if (codes.includes("invalid_json") || codes.includes("read_error")) return 400;
+    return 422;
+}
+
+/**
+ * Converts a ParsingError into an RFC 9457 problem details object (application/problem+json)
+ */
+export function toProblem(error: ParsingError, status: number = problemStatus(error)): ProblemDetails {
+    return {
+        type: "about:blank",
+        title: STATUS_CODES[status] ?? "Invalid request",
+        status,
+        detail: error.message,
+        errors: error.fields.map(({path, code, issue, params}) => ({path, code, issue, params}))
+    };
+}
+
+function problemResponse(error: ParsingError): [number, string] {
+    const problem = toProblem(error);
+    return [problem.status, JSON.stringify(problem)];
+}
+
+export function sendProblem(res: NodeResponse, error: ParsingError) {
+    const [status, body] = problemResponse(error);
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/problem+json");
+    res.end(body);
+}
+
+// requests without Content-Length and Transfer-Encoding (e.g. GET) have no body, it's parsed as undefined instead of waiting for the stream
+function streamBody(req: NodeRequest): RequestInput["body"] {
+    const {headers} = req;
+    return headers["content-length"] !== undefined || headers["transfer-encoding"] !== undefined ? {stream: req} : {value: undefined};
+}
+
+// body parser middleware reads the request stream (express body-parser also marks the request with _body)
+function requestBody(req: NodeRequest & {_body?: boolean}, body: unknown): RequestInput["body"] {
+    return req.readableEnded || req._body ? {value: body} : streamBody(req);
+}
+
+// the query of the request target, new URL() throws for valid targets like "//"
+function searchParams(url: string | undefined): Record<string, unknown> {
+    const index = url?.indexOf("?") ?? -1;
+    return fromUrlencoded(new URLSearchParams(index === -1 ? "" : url!.slice(index + 1)));
+}
+
+// errors of handlers aren't reported to the client
+function sendServerError(res: NodeResponse) {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    res.statusCode = 500;
+    res.setHeader("Content-Type", "application/problem+json");
+    res.end(JSON.stringify({type: "about:blank", title: STATUS_CODES[500], status: 500}));
+}
+
+export type NodeHandlerOptions<Req extends NodeRequest> = {
+    // extracts path params from the request (node:http has no routing)
+    params?: (req: Req) => unknown;
+    // receives errors which are answered with a 500 response, e.g. to log them
+    onError?: (error: unknown, req: Req) => void;
+};
+
+/**
+ * Request handler for node:http servers. The handler receives parsed parts of the request,
+ * invalid requests are answered with a problem+json response, other errors (also of the handler) with a 500 response
+ *
+ * @param parsers - parsers of body, query, params and headers
+ * @param handler - request handler
+ * @param options - params extractor and error listener
+ */
+export function nodeHandler<S extends RequestParsers, Req extends NodeRequest, Res extends NodeResponse>(
+    parsers: S,
+    handler: (parsed: ParsedRequest<S>, req: Req, res: Res) => unknown,
+    options: NodeHandlerOptions<Req> = {}
+) {
+    const serverError = (error: unknown, req: Req, res: Res) => {
+        options.onError?.(error, req);
+        sendServerError(res);
+    };
+
+    return async (req: Req, res: Res): Promise<void> => {
+        let parsed: ParsedRequest<S>;
+        try {
+            parsed = await parseRequest(parsers, {body: streamBody(req), query: searchParams(req.url), params: options.params?.(req) ?? {}, headers: req.headers});
+        }
+        catch (error) {
+            if (error instanceof ParsingError) sendProblem(res, error);
+            else serverError(error, req, res);
+            return;
+        }
+        try {
+            await handler(parsed, req, res);
+        }
+        catch (error) {
+            serverError(error, req, res);
+        }
+    };
+}
+
+/**
+ * Express middleware, stores parsed parts of the request in req.parsed.
+ * Bodies which were already read by body parser middleware (req.body) are used as is, otherwise the request stream is parsed
+ */
+export function expressMiddleware<S extends RequestParsers>(parsers: S) {
+    return async (req: ExpressRequest & {parsed?: ParsedRequest<S>}, res: NodeResponse, next: (error?: unknown) => void): Promise<void> => {
+        try {
+            req.parsed = await parseRequest(parsers, {
+                body: requestBody(req, req.body),
+                query: req.query ?? searchParams(req.url),
+                params: req.params,
+                headers: req.headers
+            });
+        }
+        catch (error) {
+            if (error instanceof ParsingError) sendProblem(res, error);
+            else next(error);
+            return;
+        }
+        next();
+    };
+}
+
+/**
+ * Fastify preHandler hook, stores parsed parts of the request in request.parsed.
+ * Bodies parsed by fastify content type parsers (request.body) are used as is, otherwise the raw request stream is parsed.
+ * The query is parsed from the request URL, the flat request.query doesn't have nested keys
+ */
+export function fastifyHook<S extends RequestParsers>(parsers: S) {
+    return async (request: FastifyRequest & {parsed?: ParsedRequest<S>}, reply: FastifyReply): Promise<void> => {
+        try {
+            request.parsed = await parseRequest(parsers, {
+                body: request.body !== undefined ? {value: request.body} : streamBody(request.raw),
+                query: searchParams(request.raw.url),
+                params: request.params,
+                headers: request.headers
+            });
+        }
+        catch (error) {
+            if (!(error instanceof ParsingError)) throw error;
+            const [status, body] = problemResponse(error);
+            reply.code(status).header("Content-Type", "application/problem+json").send(body);
+        }
+    };
+}
+
+/**
+ * Koa middleware, stores parsed parts of the request in ctx.state.parsed.
+ * Bodies which were already read by body parser middleware (ctx.request.body) are used as is, otherwise the request stream is parsed.
+ * The query is parsed from the request URL, the flat ctx.query doesn't have nested keys
+ */
+export function koaMiddleware<S extends RequestParsers>(parsers: S) {
+    return async (ctx: KoaContext, next: () => Promise<unknown>): Promise<void> => {
+        try {
+            ctx.state.parsed = await parseRequest(parsers, {
+                body: requestBody(ctx.req, ctx.request.body),
+                query: searchParams(ctx.req.url),
+                params: ctx.params,
+                headers: ctx.headers
+            });
+        }
+        catch (error) {
+            if (!(error instanceof ParsingError)) throw error;
+            const [status, body] = problemResponse(error);
+            ctx.status = status;
+            ctx.type = "application/problem+json";
+            ctx.body = body;
+            return;
+        }
+        await next();
+    };
+}
+
+/**
+ * Hono middleware, stores parsed parts of the request in the "parsed" context variable (c.get("parsed"))
+ */
+export function honoMiddleware<S extends RequestParsers>(parsers: S) {
+    return async (c: HonoContext, next: () => Promise<void>): Promise<Response | void> => {
+        const request = c.req.raw;
+        try {
+            c.set("parsed", await parseRequest(parsers, {
+                body: request.body ? {stream: Readable.fromWeb(request.body as WebReadableStream)} : {value: undefined},
+                query: searchParams(request.url),
+                params: c.req.param(),
+                headers: Object.fromEntries(request.headers)
+            }));
+        }
+        catch (error) {
+            if (!(error instanceof ParsingError)) throw error;
+            const [status, problem] = problemResponse(error);
+            return new Response(problem, {status, headers: {"Content-Type": "application/problem+json"}});
+        }
+        await next();
+    };
+}
@@ -1,5 +1,14 @@
-export {type File, RAMFile, TempFile, anyField, ParsingError, type Parser, type RawParser, type StreamParser, streamToBuffer, createParser} from "./base.js";
-export {buffer, string, int, float, boolean} from "./basic.js";
-export {file, object, array} from "./object.js";
-export {oneOf, alternatives, optional, nullable, defaultValue, uuid, email, any, transform} from "./util.js";
-export {readFormData} from "./formdata.js";
\ No newline at end of file
+export {type File, type FileInfo, isFile, RAMFile, TempFile, anyField, ParsingError, type FieldError, type FieldPath, type PathSegment, type IssueCode, createError, mergeErrors, toPath, formatPath, type Issue, type ErrorMap, type IssueMessage, setErrorMap, withErrorMap, type Parser, type RawParser, type StreamParser, type SafeParseResult, type SafeRawParser, type SafeStreamParser, type StreamOptions, contentType, mediaType, type AsyncParser, type SafeAsyncParser, type ParserMeta, type RefinementIssue, type RefinementContext, type Refinement, AsyncParsingRequiredError, streamToBuffer, fileTracker, parseScope, createParser, parseAsync} from "./base.js";
+export {buffer, type StringOptions, string, type NumberOptions, int, float, bigint, decimal, boolean} from "./basic.js";
+export {type Timezone, type DateOptions, type Duration, date, isoDateOnly, time, duration} from "./date.js";
+export {type FileOptions, file, type MultipartOptions, object, type ObjectResult, type ObjectOptions, type ObjectParser, record, discriminatedUnion, array, tuple, set, map} from "./object.js";
+export {oneOf, literal, nativeEnum, alternatives, optional, nullable, defaultValue, uuid, email, any, transform, transformAsync, refine, superRefine} from "./util.js";
+export {url, ipv4, ipv6, cidr, hostname, ulid, cuid, semver, base64, base64url, hex, jwt, phone, slug} from "./formats.js";
+export {readFormData} from "./formdata.js";
+export {type ContentOptions, sniffMimeType, imageDimensions, ContentInspector} from "./sniff.js";
+export {type FileWriter, type FileStorage, tempStorage, memoryStorage, StoredFile, directoryStorage, type ObjectStoreClient, RemoteFile, objectStorage, storeFile} from "./storage.js";
+export {JSONStreamParser, parseJSONStream, type JSONStreamOptions, type JSONStreamHandler, type RecordStreamOptions, jsonLines, jsonArray} from "./json.js";
+export {type CSVOptions, csv} from "./csv.js";
+export {type UrlencodedOptions, fromUrlencoded, parseUrlencoded, parseUrlencodedStream, query} from "./urlencoded.js";
+export {type JSONSchema, toJSONSchema, hasFileFields, toMultipartEncoding} from "./schema.js";
+export {type HttpMethod, type RouteDescription, type ResponseDescription, type OpenAPIInfo, type OpenAPIDocument, route, toOpenAPI} from "./openapi.js";
@@ -0,0 +1,532 @@
+import {StringDecoder} from "node:string_decoder";
+import {Readable} from "node:stream";
+import {createError, createParser, mergeErrors, onStreamEnd, toPath, type FieldPath, type IssueMessage, type Parser, type PathSegment, ParsingError} from "./base.js";
+
+export type JSONStreamOptions = {
+    // maximum size of the document in bytes
+    maxBytes?: number;
+    // maximum nesting depth of objects and arrays
+    maxDepth?: number;
+};
+
+export interface JSONStreamHandler {
+    // members are consumed only when the root is this container, otherwise the root value is built as a whole
+    root?: "object" | "array";
+    // called when a member of the root object or array is complete. The member isn't kept in the root value
+    onMember?(key: PathSegment, value: unknown): void;
+    // called when a string member of the root object starts. Returned sink receives the string in chunks
+    // (and null at the end) instead of the member being built and passed to onMember.
+    // Reading pauses until a promise returned by the sink resolves
+    onStringMember?(key: string): ((chunk: string | null) => void | Promise<void>) | undefined;
+}
+
+type Frame = {
+    type: "object" | "array";
+    value: Record<string, unknown> | Array<unknown>;
+    key?: string;
+    index: number;
+};
+
+type Mode = "value" | "afterValue" | "key" | "colon" | "string" | "number" | "literal" | "done";
+
+const whitespace = new Set([" ", "\t", "\n", "\r"]);
+const numberPattern = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+const literals: Record<string, unknown> = {true: true, false: false, null: null};
+const escapes: Record<string, string> = {'"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t"};
+
+/**
+ * Incremental JSON parser. Write chunks as they arrive, syntax errors and limits are reported
+ * (as ParsingError) by the write which contains the offending byte.
+ * Members of the root object or array can be consumed one by one with a handler, so the whole document is never kept in memory
+ */
+export class JSONStreamParser {
+    public root: unknown;
+
+    private decoder = new StringDecoder("utf8");
+    private bytes = 0;
+    private position = 0;
+    private stack: Array<Frame> = [];
+    private mode: Mode = "value";
+    private token = "";
+    // string state
+    private stringIsKey = false;
+    private stringParts: Array<string> = [];
+    private stringSink?: (chunk: string | null) => void | Promise<void>;
+    // the last promise of the sink, the source waits for it
+    private waiting?: Promise<void>;
+    // high surrogate which waits for its pair before being passed to the sink
+    private surrogate = "";
+    private escape: "" | "\\" | "u" = "";
+    private unicode = "";
+
+    constructor(private path: FieldPath = [], private handler: JSONStreamHandler = {}, private options: JSONStreamOptions = {}) {}
+
+    public write(chunk: Buffer | string): void {
+        const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+        this.bytes += buffer.byteLength;
+        if (this.options.maxBytes !== undefined && this.bytes > this.options.maxBytes) {
+            throw createError("too_big", this.path, undefined, {max: this.options.maxBytes, type: "bytes"});
+        }
+        this.process(this.decoder.write(buffer));
+    }
+
+    // returns (and clears) the promise the source has to wait for before writing the next chunk
+    public drain(): Promise<void> | undefined {
+        const waiting = this.waiting;
+        this.waiting = undefined;
+        return waiting;
+    }
+
+    public end(): unknown {
+        this.process(this.decoder.end());
+        if (this.mode === "number" || this.mode === "literal") this.finishToken();
+        if (this.mode !== "done") this.fail("unexpected end of input");
+        return this.root;
+    }
+
+    private fail(reason: string): never {
+        throw createError("invalid_json", this.path, undefined, {reason, position: this.position});
+    }
+
+    private process(text: string) {
+        if (this.position === 0 && text.startsWith("\uFEFF")) text = text.slice(1);
+        let i = 0;
+        while (i < text.length) {
+            if (this.mode === "string") {
+                i = this.readString(text, i);
+                continue;
+            }
+
+            const char = text[i]!;
+            if (this.mode === "number" || this.mode === "literal") {
+                if (/[0-9a-zA-Z+\-.]/.test(char)) {
+                    this.token += char;
+                    i++;
+                    this.position++;
+                    continue;
+                }
+                this.finishToken();
+                continue;
+            }
+
+            i++;
+            this.position++;
+            if (whitespace.has(char)) continue;
+            this.readStructure(char);
+        }
+    }
+
+    private readStructure(char: string) {
+        const frame = this.stack[this.stack.length - 1];
+        switch (this.mode) {
+            case "value":
+                if (char === "]" && frame?.type === "array" && frame.index === 0) {
+                    this.closeContainer();
+                    return;
+                }
+                this.startValue(char);
+                return;
+            case "key":
+                if (char === "}" && frame!.index === 0) {
+                    this.closeContainer();
+                    return;
+                }
+                if (char !== '"') this.fail(`unexpected character '${char}', expected a key`);
+                this.startString(true);
+                return;
+            case "colon":
+                if (char !== ":") this.fail(`unexpected character '${char}', expected ':'`);
+                this.mode = "value";
+                return;
+            case "afterValue":
+                if (char === ",") {
+                    this.mode = frame!.type === "object" ? "key" : "value";
+                    return;
+                }
+                if ((char === "}" && frame!.type === "object") || (char === "]" && frame!.type === "array")) {
+                    this.closeContainer();
+                    return;
+                }
+                this.fail(`unexpected character '${char}', expected ',' or '${frame!.type === "object" ? "}" : "]"}'`);
+            case "done":
+                this.fail(`unexpected character '${char}' after the end of the document`);
+        }
+    }
+
+    private startValue(char: string) {
+        if (char === "{" || char === "[") {
+            if (this.options.maxDepth !== undefined && this.stack.length >= this.options.maxDepth) {
+                throw createError("too_big", this.path, undefined, {max: this.options.maxDepth, type: "depth"});
+            }
+            this.stack.push({type: char === "{" ? "object" : "array", value: char === "{" ? {} : [], index: 0});
+            this.mode = char === "{" ? "key" : "value";
+            return;
+        }
+        if (char === '"') {
+            this.startString(false);
+            return;
+        }
+        if (char === "-" || (char >= "0" && char <= "9")) {
+            this.mode = "number";
+            this.token = char;
+            return;
+        }
+        if (char >= "a" && char <= "z") {
+            this.mode = "literal";
+            this.token = char;
+            return;
+        }
+        this.fail(`unexpected character '${char}'`);
+    }
+
+    private sink(chunk: string | null) {
+        const waiting = this.stringSink!(chunk);
+        if (waiting) this.waiting = waiting;
+    }
+
+    private startString(isKey: boolean) {
+        this.mode = "string";
+        this.stringIsKey = isKey;
+        this.stringParts = [];
+        this.stringSink = undefined;
+        const frame = this.stack[this.stack.length - 1];
+        if (!isKey && this.stack.length === 1 && frame?.type === "object" && this.consumes(frame) && this.handler.onStringMember) {
+            this.stringSink = this.handler.onStringMember(frame.key!);
+        }
+    }
+
+    private appendString(text: string) {
+        if (text.length === 0) return;
+        if (!this.stringSink) {
+            this.stringParts.push(text);
+            return;
+        }
+        text = this.surrogate + text;
+        this.surrogate = "";
+        const last = text.charCodeAt(text.length - 1);
+        if (last >= 0xd800 && last <= 0xdbff) {
+            this.surrogate = text.slice(-1);
+            text = text.slice(0, -1);
+        }
+        if (text.length > 0) this.sink(text);
+    }
+
+    // reads string content starting at i, returns the index after the consumed part
+    private readString(text: string, i: number): number {
+        let start = i;
+        while (i < text.length) {
+            const char = text[i]!;
+            if (this.escape === "u") {
+                if (!/[0-9a-fA-F]/.test(char)) this.fail(`invalid unicode escape`);
+                this.unicode += char;
+                i++;
+                this.position++;
+                if (this.unicode.length === 4) {
+                    this.appendString(String.fromCharCode(parseInt(this.unicode, 16)));
+                    this.escape = "";
+                    this.unicode = "";
+                }
+                start = i;
+                continue;
+            }
+            if (this.escape === "\\") {
+                i++;
+                this.position++;
+                if (char === "u") {
+                    this.escape = "u";
+                }
+                else {
+                    const escaped = escapes[char];
+                    if (escaped === undefined) this.fail(`invalid escape '\\${char}'`);
+                    this.appendString(escaped);
+                    this.escape = "";
+                }
+                start = i;
+                continue;
+            }
+            if (char === "\\") {
+                this.appendString(text.slice(start, i));
+                this.escape = "\\";
+                i++;
+                this.position++;
+                start = i;
+                continue;
+            }
+            if (char === '"') {
+                this.appendString(text.slice(start, i));
+                this.position++;
+                this.finishString();
+                return i + 1;
+            }
+            if (char < " ") this.fail("unescaped control character in string");
+            i++;
+            this.position++;
+        }
+        this.appendString(text.slice(start, i));
+        return i;
+    }
+
+    private finishString() {
+        if (this.stringIsKey) {
+            this.stack[this.stack.length - 1]!.key = this.stringParts.join("");
+            this.mode = "colon";
+            return;
+        }
+        if (this.stringSink) {
+            if (this.surrogate) this.sink(this.surrogate);
+            this.surrogate = "";
+            this.sink(null);
+            this.stringSink = undefined;
+            this.skipValue();
+            return;
+        }
+        this.emit(this.stringParts.join(""));
+    }
+
+    private finishToken() {
+        const token = this.token;
+        this.token = "";
+        if (this.mode === "number") {
+            if (!numberPattern.test(token)) this.fail(`invalid number '${token}'`);
+            this.emit(Number(token));
+            return;
+        }
+        if (!(token in literals)) this.fail(`unexpected token '${token}'`);
+        this.emit(literals[token]);
+    }
+
+    private closeContainer() {
+        const frame = this.stack.pop()!;
+        this.emit(frame.value);
+    }
+
+    // a member which was consumed by a string sink
+    private skipValue() {
+        this.stack[this.stack.length - 1]!.index++;
+        this.mode = "afterValue";
+    }
+
+    private consumes(frame: Frame): boolean {
+        return this.handler.root === undefined || this.handler.root === frame.type;
+    }
+
+    private emit(value: unknown) {
+        const frame = this.stack[this.stack.length - 1];
+        if (!frame) {
+            this.root = value;
+            this.mode = "done";
+            return;
+        }
+
+        const key = frame.type === "object" ? frame.key! : frame.index;
+        frame.index++;
+        this.mode = "afterValue";
+
+        if (this.stack.length === 1 && this.consumes(frame) && this.handler.onMember) {
+            this.handler.onMember(key, value);
+            return;
+        }
+        if (frame.type === "object") {
+            Object.defineProperty(frame.value, key, {value, enumerable: true, writable: true, configurable: true});
+        }
+        else {
+            (frame.value as Array<unknown>).push(value);
+        }
+    }
+}
+
+/**
+ * Reads a JSON document from a stream with JSONStreamParser. Rejects as soon as the stream
+ * contains a syntax error or exceeds a limit, and stops reading the stream in this case
+ */
+export function parseJSONStream(
+    stream: NodeJS.ReadableStream,
+    path: FieldPath = [],
+    handler: JSONStreamHandler = {},
+    options: JSONStreamOptions = {}
+): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+        const parser = new JSONStreamParser(path, handler, options);
+
+        const cleanup = () => {
+            stream.removeListener('data', onData);
+            stream.removeListener('end', onEnd);
+            stream.removeListener('error', onError);
+        };
+
+        let failed = false;
+        const fail = (error: unknown) => {
+            failed = true;
+            cleanup();
+            stream.pause();
+            reject(error);
+        };
+
+        // the stream is paused while a string sink is busy
+        const onData = (chunk: Buffer | string) => {
+            try {
+                parser.write(chunk);
+            }
+            catch (error) {
+                fail(error);
+                return;
+            }
+            const waiting = parser.drain();
+            if (!waiting) return;
+            stream.pause();
+            waiting.catch(() => undefined).then(() => {
+                if (!failed) stream.resume();
+            });
+        };
+
+        const onEnd = () => {
+            cleanup();
+            try {
+                resolve(parser.end());
+            }
+            catch (error) {
+                reject(error);
+            }
+        };
+
+        const onError = (err: Error) => {
+            fail(err instanceof ParsingError ? err : createError("read_error", path, undefined, {reason: err.message}));
+        };
+
+        stream.on('data', onData);
+        onStreamEnd(stream, onEnd);
+        stream.on('error', onError);
+    });
+}
+
+export type RecordStreamOptions = {
+    // throw - stop at the first invalid record (default), collect - skip invalid records and throw all their errors after the last one
+    errors?: "throw" | "collect";
+    // maximum number of records, reading stops when there are more
+    maxRecords?: number;
+    maxDepth?: number;
+    message?: IssueMessage;
+};
+
+// Reads the stream line by line, the line number (starting from 1) is passed with each non-empty line
+async function* readLines(stream: NodeJS.ReadableStream, path: FieldPath, maxLineBytes?: number): AsyncGenerator<[number, Buffer]> {
+    let pending: Array<Buffer> = [];
+    let pendingSize = 0;
+    let line = 0;
+    const checkSize = (size: number) => {
+        if (maxLineBytes !== undefined && size > maxLineBytes) {
+            throw createError("too_big", [...path, line + 1], undefined, {max: maxLineBytes, type: "bytes"});
+        }
+    };
+    for await (const chunk of stream) {
+        let data = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+        let index: number;
+        while ((index = data.indexOf(10)) !== -1) {
+            checkSize(pendingSize + index);
+            pending.push(data.subarray(0, index));
+            line++;
+            const text = Buffer.concat(pending);
+            pending = [];
+            pendingSize = 0;
+            data = data.subarray(index + 1);
+            if (text.toString().trim() !== "") yield [line, text];
+        }
+        pending.push(data);
+        pendingSize += data.byteLength;
+        checkSize(pendingSize);
+    }
+    const text = Buffer.concat(pending);
+    if (text.toString().trim() !== "") yield [line + 1, text];
+}
+
+// Reads members of the root JSON array one by one
+async function* readArrayItems(stream: NodeJS.ReadableStream, path: FieldPath, options: JSONStreamOptions): AsyncGenerator<[number, unknown]> {
+    const items: Array<[number, unknown]> = [];
+    const parser = new JSONStreamParser(path, {root: "array", onMember: (index, value) => items.push([index as number, value])}, options);
+    for await (const chunk of stream) {
+        parser.write(chunk);
+        yield* items.splice(0);
+    }
+    const root = parser.end();
+    if (!Array.isArray(root)) throw createError("invalid_type", path, root, {expected: "array"});
+    yield* items.splice(0);
+}
+
+function parseLine(text: Buffer, path: FieldPath, maxDepth?: number): unknown {
+    const parser = new JSONStreamParser(path, {}, {maxDepth});
+    parser.write(text);
+    return parser.end();
+}
+
+const asIs = (record: unknown) => record;
+
+// Decodes records (e.g. JSON text of lines) and parses them with the item parser
+export async function* parseRecords<T, R>(
+    records: AsyncIterable<[PathSegment, R]>,
+    decode: (record: R, path: FieldPath) => unknown,
+    parser: Parser<T>,
+    path: FieldPath,
+    options: RecordStreamOptions
+): AsyncGenerator<T> {
+    const errors: Array<ParsingError> = [];
+    let count = 0;
+    for await (const [key, record] of records) {
+        const recordPath = [...path, key];
+        if (options.maxRecords !== undefined && ++count > options.maxRecords) {
+            throw createError("too_big", path, undefined, {max: options.maxRecords, type: "records"}, options.message);
+        }
+        try {
+            yield await parser.async(decode(record, recordPath), recordPath);
+        }
+        catch (error) {
+            if (!(error instanceof ParsingError) || options.errors !== "collect") throw error;
+            errors.push(error);
+        }
+    }
+    if (errors.length > 0) throw mergeErrors(errors);
+}
+
+async function* fromArray(values: Array<unknown>): AsyncGenerator<[number, unknown]> {
+    yield* values.map((value, index): [number, unknown] => [index, value]);
+}
+
+function toStream(value: string | Buffer): NodeJS.ReadableStream {
+    return Readable.from([Buffer.from(value)]);
+}
+
+/**
+ * Parses newline delimited JSON (JSON Lines, NDJSON) into an async iterable of items.
+ * Records are read and parsed one by one while iterating, the path of a record ends with its line number (starting from 1).
+ * Raw values can be strings or Buffers with JSON lines, or arrays of records
+ *
+ * @param parser - parser of a single record
+ * @param options - error mode, maxRecords, maxLineBytes and maxDepth limits
+ */
+export const jsonLines = <T>(parser: Parser<T>, options: RecordStreamOptions & {maxLineBytes?: number} = {}) => {
+    const iterate = (stream: NodeJS.ReadableStream, path: FieldPath): AsyncIterable<T> =>
+        parseRecords(readLines(stream, path, options.maxLineBytes), (text, linePath) => parseLine(text, linePath, options.maxDepth), parser, path, options);
+
+    return createParser((value, path): AsyncIterable<T> => {
+        if (Array.isArray(value)) return parseRecords(fromArray(value), asIs, parser, toPath(path), options);
+        if (typeof value === "string" || value instanceof Buffer) return iterate(toStream(value), toPath(path));
+        throw createError("invalid_type", path, value, {expected: "JSON lines"}, options.message);
+    }, () => async (stream, path): Promise<AsyncIterable<T>> => iterate(stream, toPath(path)), {kind: "jsonLines", options, inner: parser});
+};
+
+/**
+ * Parses a top-level JSON array into an async iterable of items, without reading the whole array into memory.
+ * The path of an item ends with its index. Syntax errors always stop the iteration
+ *
+ * @param parser - parser of a single item
+ * @param options - error mode, maxRecords and maxDepth limits
+ */
+export const jsonArray = <T>(parser: Parser<T>, options: RecordStreamOptions = {}) => {
+    const iterate = (stream: NodeJS.ReadableStream, path: FieldPath): AsyncIterable<T> =>
+        parseRecords(readArrayItems(stream, path, {maxDepth: options.maxDepth}), asIs, parser, path, options);
+
+    return createParser((value, path): AsyncIterable<T> => {
+        if (Array.isArray(value)) return parseRecords(fromArray(value), asIs, parser, toPath(path), options);
+        if (typeof value === "string" || value instanceof Buffer) return iterate(toStream(value), toPath(path));
+        throw createError("invalid_type", path, value, {expected: "array"}, options.message);
+    }, () => async (stream, path): Promise<AsyncIterable<T>> => iterate(stream, toPath(path)), {kind: "jsonArray", options, inner: parser});
+};
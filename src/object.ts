@@ -1,297 +1,961 @@
-import Path from "path";
-import os from "os";
-import cryptoRandomString from "crypto-random-string";
-import {type Parser, ParsingError, RAMFile, createParser, TempFile, type File, streamToBuffer} from "./base.js";
+import {PassThrough, type Readable} from "stream";
+import {AsyncResource} from "async_hooks";
+import {once} from "events";
+import {type Parser, type RawParser, type StreamOptions, contentType, mediaType, type AsyncParser, type FieldPath, type PathSegment, ParsingError, RAMFile, createParser, type File, streamToBuffer, peekStream, fileTracker, isFile, anyField, createError, mergeErrors, toPath, type IssueMessage, type Refinement, type RefinementIssue, runRefinements, runRefinementsAsync, predicateRefinement} from "./base.js";
 import {buffer, string} from "./basic.js";
+import {optional} from "./util.js";
 import {readFormData} from "./formdata.js";
+import {type FileStorage, tempStorage, storeFile} from "./storage.js";
+import {type ContentOptions, ContentInspector, checksContent, inspectFile, inspectFileAsync, matchesMediaType} from "./sniff.js";
+import {parseJSONStream, type JSONStreamOptions} from "./json.js";
+import {parseUrlencodedStream, type UrlencodedOptions} from "./urlencoded.js";
 import Busboy from "busboy";
 
-export const file = (
-    options?: {
-        max?: number,
-        maxForRAM?: number,
-        tempDir?: string,
-        filename?: string
+export type FileOptions = {
+    max?: number,
+    maxForRAM?: number,
+    tempDir?: string,
+    filename?: string,
+    // where streamed files are written to, tempStorage({maxForRAM, tempDir}) by default
+    storage?: FileStorage,
+    // allowed MIME types, e.g. "image/png" or "image/*"
+    mimeTypes?: Array<string>,
+    // allowed file name extensions, e.g. ".png"
+    extensions?: Array<string>,
+    message?: IssueMessage
+} & ContentOptions;
+
+// checks the MIME type and the file name of an uploaded file
+function checkFileType(info: {mimeType?: string, filename?: string}, options: FileOptions, path?: string | FieldPath) {
+    const allowedType = !options.mimeTypes || matchesMediaType(info.mimeType, options.mimeTypes);
+    const allowedExtension = !options.extensions || options.extensions.some(extension => !!info.filename?.toLowerCase().endsWith(extension.toLowerCase()));
+    if (!allowedType || !allowedExtension) {
+        throw createError("unsupported_media_type", path, info.filename, {
+            contentType: info.mimeType,
+            filename: info.filename,
+            supported: [...(options.mimeTypes ?? []), ...(options.extensions ?? [])]
+        }, options.message);
     }
-) => createParser((value, path): File => {
-    if (value instanceof RAMFile || value instanceof TempFile) {
-        if (options?.max && value.size > options?.max) throw new ParsingError(`[${path ?? ""}] is too large.`, [{path, issue: "too large", rejectedValue: value.size}]);
+}
+
+// the file of the value (RAMFile of buffers and strings) with its size and type checked, the content is inspected by the caller
+function toFile(value: unknown, options: FileOptions | undefined, path?: string | FieldPath): File {
+    if (isFile(value)) {
+        if (options?.max && value.size > options?.max) throw createError("too_big", path, value, {max: options.max, type: "file"}, options.message);
+        if (options && (value.mimeType !== undefined || value.filename !== undefined)) checkFileType(value, options, path);
         return value;
     }
     let file = new RAMFile();
     let buf = buffer()(value, path);
-    if (options?.max && buf.byteLength > options?.max) throw new ParsingError(`[${path ?? ""}] is too large.`, [{path, issue: "too large", rejectedValue: buf.byteLength}]);
+    if (options?.max && buf.byteLength > options?.max) throw createError("too_big", path, value, {max: options.max, type: "file"}, options.message);
     file.appendSync(buffer()(value, path));
     return file;
-}, parser => (stream, path): Promise<File> => {
-    return new Promise((resolve, reject) => {
-        let file: File = new RAMFile();
-
-        stream.on('data', (chunk: Buffer) => {
-            file.appendSync(chunk);
-            if (file.size > (options?.maxForRAM ?? 1024 * 1024) && file instanceof RAMFile) {
-                let path = Path.join(options?.tempDir ?? os.tmpdir(), encodeURIComponent(cryptoRandomString({length: 20, type: "url-safe"}) + (options?.filename ? `-${options?.filename ?? ""}` : "")));
-                file.saveSync(path);
-                file = new TempFile(path, file.size);
-            }
-        });
-
-        stream.on('end', () => {
-            resolve(parser(file));
-        });
+}
 
-        stream.on('error', (err: Error) => {
-            reject(new ParsingError(`failed to read file [${path ?? ""}]: ${err.message}`, [{path, issue: "failed to read file " + err.message, rejectedValue: null}]));
-        });
-    });
-});
+export const file = (
+    options?: FileOptions
+) => {
+    // files which can only be read asynchronously (e.g. RemoteFile) are inspected as streams
+    const parseFile = async (value: unknown, path?: string | FieldPath): Promise<File> => {
+        const file = toFile(value, options, path);
+        if (options) await inspectFileAsync(file, options, path);
+        return file;
+    };
+
+    return createParser((value, path): File => {
+        const file = toFile(value, options, path);
+        if (options) inspectFile(file, options, path);
+        return file;
+    }, () => async (stream, path, streamOptions): Promise<File> => {
+        const track = fileTracker();
+        // the type (from the Content-Type of the stream) is checked before storing, the content while storing
+        const info = {filename: options?.filename, mimeType: mediaType(streamOptions)};
+        if (options && (info.mimeType !== undefined || info.filename !== undefined)) checkFileType(info, options, path);
+        const storage = options?.storage ?? tempStorage({maxForRAM: options?.maxForRAM, tempDir: options?.tempDir});
+        const file = await storeFile(stream, storage, info, {
+            max: options?.max,
+            message: options?.message,
+            inspector: options && checksContent(options) ? new ContentInspector(options, info, path) : undefined
+        }, path);
+        track(file);
+        return parseFile(file, path);
+    }, {kind: "file", options}, () => parseFile);
+};
+
+// options of the field's file parser (maxForRAM, tempDir, storage) take precedence over these defaults
+export type MultipartOptions = {
+    // maxForRAM of file parsers which don't set it
+    maxFileMemory?: number;
+    tempDir?: string;
+    // where uploaded files are written to
+    storage?: FileStorage;
+    // maximum size of a file in bytes, file({max}) of the field is checked while streaming too
+    maxFileSize?: number;
+    maxFiles?: number;
+    maxFields?: number;
+    // maximum size of a non-file field in bytes, 1MB by default
+    maxFieldSize?: number;
+};
+
+// options of the file() parser of a field (also wrapped in optional, nullable, defaultValue, refine or array)
+function fileOptions(parser?: Parser<unknown>): FileOptions | undefined {
+    const meta = parser?.meta;
+    if (meta?.kind === "file") return (meta.options ?? {}) as FileOptions;
+    if (meta && ["optional", "nullable", "defaultValue", "refine", "array"].includes(meta.kind)) return fileOptions(meta.inner);
+    return undefined;
+}
 
-async function parseFormDataStream<T extends Record<string, unknown>>(
+async function parseFormDataStream<T>(
     stream: NodeJS.ReadableStream,
-    shape: { [K in keyof T]: Parser<T[K]> },
-    options: {
-        ignoreUnknown?: boolean;
-        maxForRAM?: number;
-        tempDir?: string;
-    },
-    path?: string
+    parser: (value: unknown, path?: string | FieldPath) => T | Promise<T>,
+    options: MultipartOptions & {maxBytes?: number, unknownKeys?: UnknownKeys, ignoreUnknown?: boolean},
+    path?: string | FieldPath,
+    streamOptions?: StreamOptions,
+    fieldParser?: (name: string) => Parser<unknown> | undefined
 ): Promise<T> {
+    // files of unknown fields which are stripped from the result aren't stored
+    const stripped = (fieldname: string) => !!fieldParser && !fieldParser(fieldname) && unknownKeysMode(options) === "strip";
+
     return new Promise(async (resolve, reject) => {
-        const [busboy, start] = await readFormData(stream, {
-            limits: {
-                fileSize: Infinity
-            }
-        });
+        const maxFieldSize = options.maxFieldSize ?? 1024 * 1024;
+        let busboy: Busboy.Busboy, start: (onChunk?: (chunk: Buffer | string) => void) => void;
+        try {
+            [busboy, start] = await readFormData(stream, {
+                limits: {
+                    fileSize: Infinity,
+                    fieldSize: maxFieldSize
+                }
+            }, {contentType: contentType(streamOptions)});
+        }
+        catch (error) {
+            reject(createError("read_error", path, undefined, {reason: (error as Error).message}));
+            return;
+        }
 
-        const fields: Record<string, any> = {};
-        const errors: Array<Error> = [];
+        // fields and files in the order of the body, files are stored asynchronously
+        const entries: Array<[string, unknown]> = [];
+        const errors: Array<ParsingError> = [];
+        const fileStreams: Array<NodeJS.ReadableStream> = [];
+        const track = fileTracker();
+        let fileCount = 0;
+        let fieldCount = 0;
+        let bytes = 0;
+        let failed = false;
+
+        const onData = (chunk: Buffer | string) => {
+            bytes += chunk.length;
+            if (options.maxBytes !== undefined && bytes > options.maxBytes) abort(toPath(path), {max: options.maxBytes, type: "bytes"});
+        };
 
-        busboy.on('field', (fieldname: string, value: string) => {
-            if (fieldname in fields && Array.isArray(fields[fieldname])) fields[fieldname].push(value);
-            else if (fieldname in fields) fields[fieldname] = [fields[fieldname], value];
-            else fields[fieldname] = value;
-        });
+        // files which are being stored are aborted, so their partial files are removed before rejecting
+        const fail = (error: unknown) => {
+            if (failed) return;
+            failed = true;
+            stream.removeListener('data', onData);
+            stream.unpipe(busboy as unknown as NodeJS.WritableStream);
+            stream.pause();
+            const aborted = new Error("parsing failed");
+            for (const fileStream of fileStreams) (fileStream as Readable).destroy(aborted);
+            Promise.allSettled(entries.map(([, value]) => value)).then(() => reject(error));
+        };
 
-        busboy.on('file', (fieldname: string, fileStream: NodeJS.ReadableStream, info: Busboy.FileInfo) => {
-            const {filename} = info;
+        // limits stop reading the body
+        const abort = (fieldPath: FieldPath, params: Record<string, unknown>) => fail(createError("too_big", fieldPath, undefined, params));
 
-            let file: File = new RAMFile(info);
+        busboy.on('field', (fieldname: string, value: string, info: Busboy.FieldInfo) => {
+            if (failed) return;
+            if (options.maxFields !== undefined && ++fieldCount > options.maxFields) {
+                abort(toPath(path), {max: options.maxFields, type: "fields"});
+                return;
+            }
+            if (info.valueTruncated) {
+                abort([...toPath(path), fieldname], {max: maxFieldSize, type: "bytes"});
+                return;
+            }
+            entries.push([fieldname, value]);
+        });
 
-            fileStream.on('data', (chunk: Buffer) => {
-                file.appendSync(chunk);
-                if (file.size > (options?.maxForRAM ?? 1024 * 1024) && file instanceof RAMFile) {
-                    let path = Path.join(options.tempDir ?? os.tmpdir(), encodeURIComponent(`${cryptoRandomString({length: 20, type: "url-safe"})}-${filename}`));
-                    file.saveSync(path);
-                    file = new TempFile(path, file.size, info);
-                }
-            });
+        busboy.on('file', (fieldname: string, fileStream: NodeJS.ReadableStream, info: Busboy.FileInfo) => {
+            const fieldPath = [...toPath(path), fieldname];
+            const constraints = fileOptions(fieldParser?.(fieldname)) ?? {};
+            if (failed) {
+                fileStream.resume();
+                return;
+            }
+            if (options.maxFiles !== undefined && ++fileCount > options.maxFiles) {
+                fileStream.resume();
+                abort(toPath(path), {max: options.maxFiles, type: "files"});
+                return;
+            }
+            if (stripped(fieldname)) {
+                fileStream.resume();
+                return;
+            }
+            try {
+                checkFileType(info, constraints, fieldPath);
+            }
+            catch (error) {
+                errors.push(error as ParsingError);
+                fileStream.resume();
+                return;
+            }
 
-            fileStream.on('end', () => {
-                if (fieldname in fields && Array.isArray(fields[fieldname])) fields[fieldname].push(file);
-                else if (fieldname in fields) fields[fieldname] = [fields[fieldname], file];
-                else fields[fieldname] = file;
+            const storage = constraints.storage ?? options.storage ?? tempStorage({
+                maxForRAM: constraints.maxForRAM ?? options.maxFileMemory,
+                tempDir: constraints.tempDir ?? options.tempDir
             });
-
-            fileStream.on('error', (err: Error) => {
-                errors.push(err);
+            const max = Math.min(options.maxFileSize ?? Infinity, constraints.max ?? Infinity);
+            fileStreams.push(fileStream);
+            const stored = storeFile(fileStream, storage, info, {
+                max: max === Infinity ? undefined : max,
+                inspector: checksContent(constraints) ? new ContentInspector(constraints, info, fieldPath) : undefined
+            }, fieldPath).then(file => {
+                track(file);
+                return file;
             });
-
-            // let fileParser = file({maxForRAM: options.maxForRAM, tempDir: options.tempDir, filename: info.filename});
-            // fileParser.stream(fileStream, path);
+            stored.catch(fail);
+            entries.push([fieldname, stored]);
         });
 
         busboy.on('error', (err: Error) => {
-            reject(err);
+            fail(createError("read_error", path, undefined, {reason: err.message}));
         });
 
-        busboy.on('finish', () => {
+        busboy.on('finish', async () => {
+            if (failed) return;
+            stream.removeListener('data', onData);
+            let values: Array<unknown>;
+            try {
+                values = await Promise.all(entries.map(([, value]) => value));
+            }
+            catch {
+                // already failed
+                return;
+            }
+            if (failed) return;
             if (errors.length > 0) {
-                reject(errors);
+                fail(mergeErrors(errors));
                 return;
             }
 
-            try {
-                resolve(object(shape, options)(fields, path));
-            } catch (error) {
-                reject(error);
-            }
+            // repeated names are collected into arrays
+            const fields: Record<string, any> = {};
+            entries.forEach(([fieldname], index) => {
+                const value = values[index];
+                if (fieldname in fields && Array.isArray(fields[fieldname])) fields[fieldname].push(value);
+                else if (fieldname in fields) fields[fieldname] = [fields[fieldname], value];
+                else fields[fieldname] = value;
+            });
+            Promise.resolve().then(() => parser(fields, path)).then(resolve, fail);
         });
 
-        start();
+        // bytes read while searching the boundary count too
+        start(onData);
     });
 }
 
-function isFormdataStream(stream: NodeJS.ReadableStream): Promise<boolean> {
-    return new Promise((resolve) => {
-        const wasFlowing = (stream as any).readableFlowing;
-        stream.pause();
+type BodyFormat = "json" | "multipart" | "urlencoded" | "text";
+
+const mediaTypes: Record<BodyFormat, RegExp> = {
+    json: /^application\/([a-z0-9.+-]+\+)?json$/,
+    multipart: /^multipart\/form-data$/,
+    urlencoded: /^application\/x-www-form-urlencoded$/,
+    text: /^text\/plain$/
+};
+
+const formatNames: Record<BodyFormat, string> = {
+    json: "application/json",
+    multipart: "multipart/form-data",
+    urlencoded: "application/x-www-form-urlencoded",
+    text: "text/plain"
+};
+
+// multipart bodies start with the boundary, JSON bodies with an object or array, URL-encoded bodies with a key and "=". Other bodies are not guessed
+async function detectBodyFormat(stream: NodeJS.ReadableStream): Promise<BodyFormat | undefined> {
+    const chunk = (await peekStream(stream)).replace(/^\uFEFF/, "").trimStart();
+    if (chunk === "" || chunk.startsWith('{') || chunk.startsWith('[')) return "json";
+    if (chunk.startsWith('--')) return "multipart";
+    return /^[^\s=]+=/.test(chunk) ? "urlencoded" : undefined;
+}
 
-        let resolved = false;
-        const cleanup = () => {
-            stream.removeListener('readable', handleReadable);
-            stream.removeListener('end', handleEnd);
-        };
+// the format from the Content-Type, the body is sniffed only when there is no Content-Type. Sniffed formats which aren't supported are parsed as text, bodies which can't be sniffed are rejected
+async function bodyFormat(
+    stream: NodeJS.ReadableStream,
+    path: FieldPath,
+    streamOptions: StreamOptions | undefined,
+    supported: Array<BodyFormat>,
+    message?: IssueMessage
+): Promise<BodyFormat> {
+    const type = mediaType(streamOptions);
+    const unsupported = (contentType: string) =>
+        createError("unsupported_media_type", path, undefined, {contentType, supported: supported.map(format => formatNames[format])}, message);
+    if (type === undefined) {
+        const format = await detectBodyFormat(stream);
+        if (format === undefined) throw unsupported("unknown");
+        return supported.includes(format) ? format : "text";
+    }
+    const format = supported.find(format => mediaTypes[format].test(type));
+    if (!format) throw unsupported(type);
+    return format;
+}
 
-        const restoreFlowingState = () => {
-            if (wasFlowing === true) {
-                stream.resume();
-            }
-        };
+type FieldTask = {
+    key: PathSegment;
+    // fields without a parser are copied as is
+    parser?: Parser<unknown>;
+    // fields which are rejected without parsing
+    error?: ParsingError;
+    value: unknown;
+    // fields which are read from a stream instead of the value
+    stream?: NodeJS.ReadableStream;
+    path: FieldPath;
+    // replaces the parser's error (e.g. with "required" for missing fields)
+    onError?: (error: ParsingError) => ParsingError;
+};
+
+type TaskResults = {results: Array<[PathSegment, unknown]>, errors: Array<ParsingError>};
+
+type TaskOutcome = [PathSegment, unknown] | ParsingError;
+
+function runTasks(tasks: Array<FieldTask>): TaskResults {
+    const results: Array<[PathSegment, unknown]> = [];
+    const errors: Array<ParsingError> = [];
+    for (const task of tasks) {
+        if (task.error) {
+            errors.push(task.error);
+            continue;
+        }
+        try {
+            results.push([task.key, task.parser ? task.parser(task.value, task.path) : task.value]);
+        }
+        catch (error) {
+            if (!(error instanceof ParsingError)) throw error;
+            errors.push(task.onError?.(error) ?? error);
+        }
+    }
+    return {results, errors};
+}
 
-        const handleReadable = () => {
-            if (resolved) return;
-            const chunk = stream.read();
+async function runTaskAsync(task: FieldTask): Promise<TaskOutcome> {
+    if (task.error) return task.error;
+    try {
+        if (task.parser && task.stream) return [task.key, await task.parser.stream(task.stream, task.path)];
+        return [task.key, task.parser ? await task.parser.async(task.value, task.path) : task.value];
+    }
+    catch (error) {
+        if (!(error instanceof ParsingError)) throw error;
+        return task.onError?.(error) ?? error;
+    }
+}
 
-            if (chunk === null) {
-                handleEnd();
-                return;
-            }
+function collectOutcomes(settled: Array<TaskOutcome>): TaskResults {
+    return {
+        results: settled.filter((result): result is [PathSegment, unknown] => !(result instanceof ParsingError)),
+        errors: settled.filter((result): result is ParsingError => result instanceof ParsingError)
+    };
+}
 
-            stream.unshift(chunk);
-            resolved = true;
-            cleanup();
-            restoreFlowingState();
-            resolve(!chunk.toString().startsWith('{'));
-        };
+async function runTasksAsync(tasks: Array<FieldTask>): Promise<TaskResults> {
+    return collectOutcomes(await Promise.all(tasks.map(runTaskAsync)));
+}
 
-        const handleEnd = () => {
-            if (resolved) return;
-            resolved = true;
-            cleanup();
-            restoreFlowingState();
-            resolve(false);
-        };
+// file and buffer fields (also wrapped in optional, nullable or defaultValue) read JSON strings as streams
+function streamTarget(parser?: Parser<unknown>): Parser<unknown> | undefined {
+    const meta = parser?.meta;
+    if (meta?.kind === "file" || meta?.kind === "buffer") return parser;
+    if (meta && ["optional", "nullable", "defaultValue"].includes(meta.kind)) return streamTarget(meta.inner);
+    return undefined;
+}
 
-        stream.once('readable', handleReadable);
-        stream.once('end', handleEnd);
+function isObjectLike(value: unknown): value is object {
+    return typeof value === 'object' && value !== null && !(value instanceof Buffer);
+}
 
-        process.nextTick(() => {
-            if (resolved) return;
-            if ((stream as any).readableEnded) {
-                handleEnd();
-            }
-        });
-    });
+function parseJSON(value: unknown, path: string | FieldPath | undefined, expected: string, message?: IssueMessage): unknown {
+    try {
+        return JSON.parse(string()(value, path));
+    } catch (e) {
+        throw createError("invalid_type", path, value, {expected}, message);
+    }
+}
+
+type JSONBodyParser<T> = (stream: NodeJS.ReadableStream, path: FieldPath, asyncParser: AsyncParser<T>) => Promise<T>;
+
+function streamParser<T>(
+    options: {message?: IssueMessage} & MultipartOptions & JSONStreamOptions & UrlencodedOptions,
+    parseJSONBody?: JSONBodyParser<T>,
+    fieldParser?: (name: string) => Parser<unknown> | undefined
+) {
+    return (_parser: RawParser<T>, asyncParser: AsyncParser<T>) => async (stream: NodeJS.ReadableStream, path?: string | FieldPath, streamOptions?: StreamOptions): Promise<T> => {
+        const format = await bodyFormat(stream, toPath(path), streamOptions, ["json", "multipart", "urlencoded", "text"], options.message);
+        if (format === "multipart") {
+            return await parseFormDataStream(stream, asyncParser, options, path, streamOptions, fieldParser);
+        }
+        else if (format === "urlencoded") {
+            return asyncParser(await parseUrlencodedStream(stream, toPath(path), options), path);
+        }
+        else if (format === "text") {
+            return asyncParser((await streamToBuffer(stream)).toString(), path);
+        }
+        else if (parseJSONBody) {
+            return parseJSONBody(stream, toPath(path), asyncParser);
+        }
+        else {
+            return asyncParser(await parseJSONStream(stream, toPath(path), {}, options), path);
+        }
+    };
+}
+
+// Result of an object shape: keys parsed by the [anyField] parser are merged in as a string index signature,
+// which also includes the types of the declared fields, so results can be written as object literals
+export type ObjectResult<T> = T extends {[anyField]: infer V} ? Omit<T, typeof anyField> & {[key: string]: V | T[Exclude<keyof T, typeof anyField>]} : T;
+
+export type UnknownKeys = "passthrough" | "strip" | "strict";
+
+export type ObjectOptions<T> = {
+    // passthrough - copy unknown keys as is, strip - drop them (default), strict - report them as not_allowed issues
+    unknownKeys?: UnknownKeys;
+    // deprecated: false is the same as unknownKeys: "strict", true is the same as unknownKeys: "strip"
+    ignoreUnknown?: boolean;
+    message?: IssueMessage;
+    // cross-field checks, run after all fields were parsed successfully
+    checks?: Array<Refinement<ObjectResult<T>>>;
+} & MultipartOptions & JSONStreamOptions & UrlencodedOptions;
+
+type Flatten<T> = { [K in keyof T]: T[K] };
+
+type DeepPartialValue<T> = T extends Array<infer U>
+    ? Array<DeepPartialValue<U>>
+    : T extends Record<string, unknown> ? { [K in keyof T]: DeepPartialValue<T[K]> | undefined } : T;
+
+export type ObjectParser<T> = Parser<ObjectResult<T>> & {
+    shape: { [K in keyof T]: Parser<T[K]> };
+    options: ObjectOptions<T>;
+    // adds a cross-field check which can report issues for any field path
+    check(check: Refinement<ObjectResult<T>>): ObjectParser<T>;
+    // adds a cross-field predicate, the issue is reported when it returns false
+    refine(predicate: (value: ObjectResult<T>) => boolean | Promise<boolean>, issue?: IssueMessage | RefinementIssue): ObjectParser<T>;
+    // adds or replaces fields
+    extend<U extends Record<string, unknown>>(shape: { [K in keyof U]: Parser<U[K]> }): ObjectParser<Flatten<Omit<T, keyof U> & U>>;
+    // adds or replaces fields with the fields of another object parser, checks of both parsers are kept
+    merge<U extends Record<string, unknown>>(other: ObjectParser<U>): ObjectParser<Flatten<Omit<T, keyof U> & U>>;
+    // pick, omit, partial and deepPartial drop the checks, because they can rely on the removed or now optional fields
+    pick<K extends keyof T>(keys: ReadonlyArray<K>): ObjectParser<Pick<T, K>>;
+    omit<K extends keyof T>(keys: ReadonlyArray<K>): ObjectParser<Omit<T, K>>;
+    // wraps every field in optional()
+    partial(): ObjectParser<{ [K in keyof T]: T[K] | undefined }>;
+    // wraps every field in optional() and makes nested objects (including objects in arrays) deep partial
+    deepPartial(): ObjectParser<{ [K in keyof T]: DeepPartialValue<T[K]> | undefined }>;
+    // unwraps optional() fields
+    required(): ObjectParser<{ [K in keyof T]: Exclude<T[K], undefined> }>;
+    passthrough(): ObjectParser<T>;
+    strip(): ObjectParser<T>;
+    strict(): ObjectParser<T>;
+};
+
+export function unknownKeysMode(options: {unknownKeys?: UnknownKeys, ignoreUnknown?: boolean}): UnknownKeys {
+    if (options.unknownKeys) return options.unknownKeys;
+    return options.ignoreUnknown === false ? "strict" : "strip";
+}
+
+type Shape = Record<string | symbol, Parser<unknown>>;
+
+function mapShape(shape: Shape, fn: (parser: Parser<unknown>) => Parser<unknown>): Shape {
+    return Object.fromEntries(Reflect.ownKeys(shape).map(key => [key, fn(shape[key]!)]));
+}
+
+function deepPartialValue(parser: Parser<unknown>): Parser<unknown> {
+    const meta = parser.meta;
+    if (meta?.kind === "object") return (parser as ObjectParser<Record<string, unknown>>).deepPartial();
+    if (meta?.kind === "array" && meta.inner) return array(deepPartialValue(meta.inner), meta.options);
+    if (meta?.kind === "optional" && meta.inner) return optional(deepPartialValue(meta.inner));
+    return parser;
 }
 
 export const object = <T extends Record<string, unknown>>(
     shape: { [K in keyof T]: Parser<T[K]> },
-    options: {
-        ignoreUnknown?: boolean;
-        maxFileMemory?: number;
-        tempDir?: string;
-    } = { ignoreUnknown: true }
-) => createParser((value, path): T => {
-    if (typeof value === 'object' && value !== null && !(value instanceof Buffer)) {
-        const result: Partial<T> = {};
-        const entries = Object.entries(value);
-        let errors: Array<ParsingError> = [];
-
-        for (const [key, val] of entries) {
-            if (key in shape) {
-                const parser = shape[key as keyof T];
-                try {
-                    result[key as keyof T] = parser(val, `${path ?? ""}.${key}`);
-                }
-                catch (error) {
-                    if (error instanceof ParsingError) errors.push(error);
-                }
-            } else if (!options.ignoreUnknown) {
-                throw new ParsingError(`[${path ?? ""}.${key}] is not allowed`, [{path: `${path ?? ""}.${key}`, issue: "not allowed", rejectedValue: key}]);
-            } else {
-                result[key as keyof T] = val;
-            }
+    options: ObjectOptions<T> = {}
+): ObjectParser<T> => {
+    const anyFieldParser = (shape as {[anyField]?: Parser<unknown>})[anyField];
+    const unknownKeys = unknownKeysMode(options);
+
+    const fieldParser = (key: string): Parser<unknown> | undefined =>
+        Object.prototype.hasOwnProperty.call(shape, key) ? shape[key as keyof T] : anyFieldParser;
+
+    const fieldTask = (key: string, val: unknown, path?: string | FieldPath): FieldTask | undefined => {
+        const parser = fieldParser(key);
+        if (parser) {
+            return {key, parser, value: val, path: [...toPath(path), key]};
+        } else if (unknownKeys === "strict") {
+            return {key, value: val, path: [...toPath(path), key], error: createError("not_allowed", [...toPath(path), key], val, {}, options.message)};
+        } else if (unknownKeys === "passthrough") {
+            return {key, value: val, path: [...toPath(path), key]};
         }
+        return undefined;
+    };
 
+    const missingTasks = (isPresent: (key: string) => boolean, path?: string | FieldPath): Array<FieldTask> => {
+        const result: Array<FieldTask> = [];
         for (const key in shape) {
-            if (!(key in value)) {
-                if (Object.prototype.hasOwnProperty.call(shape, key)) {
-                    try {
-                        result[key as keyof T] = shape[key as keyof T](undefined, `${path ?? ""}.${key}`);
-                    } catch (error) {
-                        errors.push(new ParsingError(`[${path ?? ""}.${key}] is required`, [{path: `${path ?? ""}.${key}`, issue: "required", rejectedValue: key}]));
-                    }
-                }
+            if (!isPresent(key) && Object.prototype.hasOwnProperty.call(shape, key)) {
+                result.push({
+                    key,
+                    parser: shape[key as keyof T],
+                    value: undefined,
+                    path: [...toPath(path), key],
+                    onError: () => createError("required", [...toPath(path), key], undefined, {}, options.message)
+                });
             }
         }
+        return result;
+    };
+
+    const tasks = (value: object, path?: string | FieldPath): Array<FieldTask> => [
+        ...Object.entries(value).map(([key, val]) => fieldTask(key, val, path)).filter((task): task is FieldTask => task !== undefined),
+        ...missingTasks(key => Object.prototype.hasOwnProperty.call(value, key), path)
+    ];
+
+    // fields of a JSON body are parsed as soon as they are read, file and buffer fields are streamed
+    const parseJSONBody: JSONBodyParser<ObjectResult<T>> = async (stream, path, asyncParser) => {
+        const present = new Set<string>();
+        const outcomes: Array<Promise<TaskOutcome>> = [];
+        const fieldStreams: Array<PassThrough> = [];
+        const start = (task?: FieldTask) => {
+            if (task) outcomes.push(runTaskAsync(task));
+        };
+
+        let root: unknown;
+        try {
+            root = await parseJSONStream(stream, path, {
+                root: "object",
+                onMember: (key, value) => {
+                    present.add(key as string);
+                    start(fieldTask(key as string, value, path));
+                },
+                // JSON stream events don't run in the async context of this parser, which tracks temp files of the fields
+                onStringMember: AsyncResource.bind((key: string) => {
+                    const parser = streamTarget(fieldParser(key));
+                    if (!parser) return undefined;
+                    present.add(key);
+                    const fieldStream = new PassThrough();
+                    fieldStreams.push(fieldStream);
+                    const outcome = runTaskAsync({key, parser, value: undefined, stream: fieldStream, path: [...path, key]});
+                    outcomes.push(outcome);
+                    let settled = false;
+                    outcome.finally(() => settled = true).catch(() => undefined);
+                    // reading waits until the field parser has consumed the chunk, chunks are dropped when it already failed
+                    return (chunk: string | null): Promise<void> | undefined => {
+                        if (settled || fieldStream.destroyed) return undefined;
+                        if (chunk === null) {
+                            fieldStream.end();
+                            return undefined;
+                        }
+                        if (fieldStream.write(chunk)) return undefined;
+                        return Promise.race([once(fieldStream, "drain"), outcome]).then(() => undefined, () => undefined);
+                    };
+                })
+            }, options);
+        }
+        catch (error) {
+            for (const fieldStream of fieldStreams) fieldStream.destroy(error as Error);
+            await Promise.allSettled(outcomes);
+            throw error;
+        }
 
+        if (!isObjectLike(root) || Array.isArray(root)) return asyncParser(root, path);
+        for (const task of missingTasks(key => present.has(key), path)) start(task);
+        const result = build(collectOutcomes(await Promise.all(outcomes)));
+        await runRefinementsAsync(result, path, options.checks ?? []);
+        return result;
+    };
+
+    const build = ({results, errors}: TaskResults): ObjectResult<T> => {
         if (errors.length > 0) {
-            const fieldErrors: Array<{path: string | undefined, issue: string, rejectedValue: any}> = [];
-            errors.forEach(({fields}) => {
-                fieldErrors.push(...fields);
-            });
-            throw new ParsingError(errors.map(error => error.message).join('\n'), fieldErrors);
+            throw mergeErrors(errors);
         }
-        return result as T;
-    }
+        return Object.fromEntries(results) as ObjectResult<T>;
+    };
+
+    const parser = createParser((value, path): ObjectResult<T> => {
+        if (!isObjectLike(value)) return object(shape, options)(parseJSON(value, path, "object", options.message), path);
+        const result = build(runTasks(tasks(value, path)));
+        runRefinements(result, path, options.checks ?? []);
+        return result;
+    }, streamParser(options, parseJSONBody, fieldParser), {kind: "object", options, shape}, () => async (value, path): Promise<ObjectResult<T>> => {
+        if (!isObjectLike(value)) return object(shape, options).async(parseJSON(value, path, "object", options.message), path);
+        const result = build(await runTasksAsync(tasks(value, path)));
+        await runRefinementsAsync(result, path, options.checks ?? []);
+        return result;
+    });
 
-    let json = "";
-    try {
-        json = JSON.parse(string()(value, path)); 
-    } catch (e) {
-        throw new ParsingError(`[${path}] cannot be converted to an object`, [{path, issue: "cannot be converted to an object", rejectedValue: null}]);
-    }
+    const {checks, ...uncheckedOptions} = options;
+    // the same fields with other types: returns a loosely typed parser, the methods declare the result types
+    const derive = (shape: Shape, options: ObjectOptions<any>) => object(shape as Record<string, Parser<unknown>>, options) as ObjectParser<any>;
+
+    return Object.assign(parser, {
+        shape,
+        options,
+        check: (check: Refinement<ObjectResult<T>>) => object(shape, {...options, checks: [...(checks ?? []), check]}),
+        refine: (predicate: (value: ObjectResult<T>) => boolean | Promise<boolean>, issue?: IssueMessage | RefinementIssue) =>
+            object(shape, {...options, checks: [...(checks ?? []), predicateRefinement(predicate, issue)]}),
+        extend: (extension: Shape) => derive({...shape, ...extension}, options),
+        merge: (other: ObjectParser<Record<string, unknown>>) =>
+            derive({...shape, ...other.shape}, {...options, checks: [...(checks ?? []), ...(other.options.checks ?? [])]}),
+        pick: (keys: ReadonlyArray<keyof T>) => derive(Object.fromEntries(keys.map(key => [key, shape[key]])), uncheckedOptions),
+        omit: (keys: ReadonlyArray<keyof T>) =>
+            derive(Object.fromEntries(Reflect.ownKeys(shape).filter(key => !keys.includes(key as keyof T)).map(key => [key, shape[key as keyof T]])), uncheckedOptions),
+        partial: () => derive(mapShape(shape, field => optional(field)), uncheckedOptions),
+        deepPartial: () => derive(mapShape(shape, field => optional(deepPartialValue(field))), uncheckedOptions),
+        required: () => derive(mapShape(shape, field => field.meta?.kind === "optional" && field.meta.inner ? field.meta.inner : field), options),
+        passthrough: () => object(shape, {...options, unknownKeys: "passthrough"}),
+        strip: () => object(shape, {...options, unknownKeys: "strip"}),
+        strict: () => object(shape, {...options, unknownKeys: "strict"})
+    }) as ObjectParser<T>;
+};
+
+export const record = <K extends string, V>(
+    keyParser: Parser<K>,
+    valueParser: Parser<V>,
+    options: {
+        message?: IssueMessage;
+    } & MultipartOptions & JSONStreamOptions & UrlencodedOptions = {}
+) => {
+    const keyTasks = (value: object, path?: string | FieldPath): Array<FieldTask> =>
+        Object.keys(value).map(key => ({key, parser: keyParser, value: key, path: [...toPath(path), key]}));
+
+    // values are parsed only for valid keys
+    const valueTasks = (value: object, keys: TaskResults, path?: string | FieldPath): Array<FieldTask> =>
+        keys.results.map(([key, parsedKey]) => ({key: parsedKey as string, parser: valueParser, value: (value as Record<string, unknown>)[key], path: [...toPath(path), key]}));
+
+    const build = (keys: TaskResults, values: TaskResults): Record<K, V> => {
+        const errors = [...keys.errors, ...values.errors];
+        if (errors.length > 0) {
+            throw mergeErrors(errors);
+        }
+        return Object.fromEntries(values.results) as Record<K, V>;
+    };
 
-    return object(shape, options)(json, path);
-}, parser => async (stream, path): Promise<T> => {
-    if (await isFormdataStream(stream)) {
-        return await parseFormDataStream(stream, shape, options, path);
-    }
-    else {
-        return parser(await streamToBuffer(stream), path);
-    }
-});
+    return createParser((value, path): Record<K, V> => {
+        if (isObjectLike(value)) {
+            const keys = runTasks(keyTasks(value, path));
+            return build(keys, runTasks(valueTasks(value, keys, path)));
+        }
+        return record(keyParser, valueParser, options)(parseJSON(value, path, "object", options.message), path);
+    }, streamParser(options, undefined, () => valueParser), {kind: "record", options, key: keyParser, inner: valueParser}, () => async (value, path): Promise<Record<K, V>> => {
+        if (isObjectLike(value)) {
+            const keys = await runTasksAsync(keyTasks(value, path));
+            return build(keys, await runTasksAsync(valueTasks(value, keys, path)));
+        }
+        return record(keyParser, valueParser, options).async(parseJSON(value, path, "object", options.message), path);
+    });
+};
+
+type DiscriminatedUnionResult<K extends string, O extends Record<string, Parser<object>>> =
+    { [Tag in keyof O & string]: (O[Tag] extends Parser<infer U> ? U : never) & Record<K, Tag> }[keyof O & string];
+
+export const discriminatedUnion = <K extends string, O extends Record<string, Parser<object>>>(
+    key: K,
+    branches: O,
+    options: {
+        message?: IssueMessage;
+    } & MultipartOptions & JSONStreamOptions & UrlencodedOptions = {}
+) => {
+    // returns the branch parser for the tag value or throws the error of the tag field
+    const branch = (value: object, path?: string | FieldPath): [string, Parser<object>] => {
+        const tag = (value as Record<string, unknown>)[key];
+        const tagPath = [...toPath(path), key];
+        if (tag === undefined) {
+            throw createError("required", tagPath, undefined, {}, options.message);
+        }
+        if (typeof tag !== "string" || !Object.prototype.hasOwnProperty.call(branches, tag)) {
+            throw createError("invalid_value", tagPath, tag, {values: Object.keys(branches)}, options.message);
+        }
+        return [tag, branches[tag]!];
+    };
+
+    const withTag = (result: object, tag: string) => ({...result, [key]: tag}) as DiscriminatedUnionResult<K, O>;
+
+    return createParser((value, path): DiscriminatedUnionResult<K, O> => {
+        if (!isObjectLike(value)) return discriminatedUnion(key, branches, options)(parseJSON(value, path, "object", options.message), path);
+        const [tag, parser] = branch(value, path);
+        return withTag(parser(value, path), tag);
+    }, streamParser(options), {kind: "discriminatedUnion", options: {...options, discriminator: key}, branches}, () => async (value, path): Promise<DiscriminatedUnionResult<K, O>> => {
+        if (!isObjectLike(value)) return discriminatedUnion(key, branches, options).async(parseJSON(value, path, "object", options.message), path);
+        const [tag, parser] = branch(value, path);
+        return withTag(await parser.async(value, path), tag);
+    });
+};
 
 export const array = <T>(
     parser: Parser<T>,
-    options: { min?: number; max?: number } = {}
-) => createParser((value, path): Array<T> => {
-    if (!Array.isArray(value)) {
+    options: { min?: number; max?: number; message?: IssueMessage } & JSONStreamOptions = {}
+) => {
+    const checkLength = (value: Array<unknown>, path?: string | FieldPath) => {
+        if (options.min !== undefined && value.length < options.min) {
+            throw createError("too_small", path, value, {min: options.min, type: "array"}, options.message);
+        }
+
+        if (options.max !== undefined && value.length > options.max) {
+            throw createError("too_big", path, value, {max: options.max, type: "array"}, options.message);
+        }
+    };
+
+    const tasks = (value: Array<unknown>, path?: string | FieldPath): Array<FieldTask> =>
+        value.map((item, index) => ({key: index, parser, value: item, path: [...toPath(path), index]}));
+
+    // items of a JSON array body are parsed as soon as they are read, reading stops when there are more than max items
+    const parseJSONBody = async (stream: NodeJS.ReadableStream, path: FieldPath): Promise<Array<T>> => {
+        const outcomes: Array<Promise<TaskOutcome>> = [];
         try {
-            return [parser(value, `${path}[0]`)];
+            await parseJSONStream(stream, path, {
+                root: "array",
+                onMember: (index, item) => {
+                    if (options.max !== undefined && outcomes.length >= options.max) {
+                        throw createError("too_big", path, undefined, {max: options.max, type: "array"}, options.message);
+                    }
+                    outcomes.push(runTaskAsync({key: index, parser, value: item, path: [...path, index]}));
+                }
+            }, options);
         }
         catch (error) {
-            let json = "";
+            await Promise.allSettled(outcomes);
+            throw error;
+        }
+
+        const {results, errors} = collectOutcomes(await Promise.all(outcomes));
+        if (options.min !== undefined && outcomes.length < options.min) {
+            throw createError("too_small", path, undefined, {min: options.min, type: "array"}, options.message);
+        }
+        if (errors.length > 0) throw mergeErrors(errors);
+        return results.map(([, item]) => item as T);
+    };
+
+    return createParser((value, path): Array<T> => {
+        if (!Array.isArray(value)) {
             try {
-                json = JSON.parse(string()(value, path));
+                return [parser(value, [...toPath(path), 0])];
             }
             catch (error) {
-                throw new ParsingError(`[${path ?? ""}] should be an array`, [{path, issue: "should be an array", rejectedValue: null}]);
+                if (!(error instanceof ParsingError)) throw error;
+                return array(parser, options)(parseJSON(value, path, "array", options.message), path);
             }
-            return array(parser, options)(json, path);
         }
-    }
 
-    if (options.min !== undefined && value.length < options.min) {
-        throw new ParsingError(`[length(${path ?? ""})] is less than the allowed minimum (${options.min})`, [{path, issue: `less than the allowed minimum (${options.min})`, rejectedValue: value.length}]);
-    }
+        checkLength(value, path);
 
-    if (options.max !== undefined && value.length > options.max) {
-        throw new ParsingError(`[length(${path ?? ""})] is larger than the allowed maximum (${options.max})`, [{path, issue: `larger than the allowed maximum (${options.max})`, rejectedValue: value.length}]);
-    }
+        const {results, errors} = runTasks(tasks(value, path));
+        if (errors.length > 0) {
+            try {
+                return [parser(value, [...toPath(path), 0])];
+            }
+            catch (error) {
+                if (!(error instanceof ParsingError)) throw error;
+                throw mergeErrors(errors);
+            }
+        }
+        return results.map(([, item]) => item as T);
+    }, (_parser, asyncParser) => async (stream, path, streamOptions): Promise<Array<T>> => {
+        if (await bodyFormat(stream, toPath(path), streamOptions, ["json", "text"], options.message) === "text") {
+            return asyncParser(await streamToBuffer(stream), path);
+        }
+        if ((await peekStream(stream)).replace(/^\uFEFF/, "").trimStart().startsWith('[')) return parseJSONBody(stream, toPath(path));
+        return asyncParser(await parseJSONStream(stream, toPath(path), {}, options), path);
+    }, {kind: "array", options, inner: parser}, () => async (value, path): Promise<Array<T>> => {
+        if (!Array.isArray(value)) {
+            try {
+                return [await parser.async(value, [...toPath(path), 0])];
+            }
+            catch (error) {
+                if (!(error instanceof ParsingError)) throw error;
+                return array(parser, options).async(parseJSON(value, path, "array", options.message), path);
+            }
+        }
 
-    let ret: Array<T> = [];
-    let errors: Array<ParsingError> = [];
-    value.forEach((item, index) => {
-        try {
-            ret.push(parser(item, `${path}[${index}]`));
+        checkLength(value, path);
+
+        const {results, errors} = await runTasksAsync(tasks(value, path));
+        if (errors.length > 0) {
+            try {
+                return [await parser.async(value, [...toPath(path), 0])];
+            }
+            catch (error) {
+                if (!(error instanceof ParsingError)) throw error;
+                throw mergeErrors(errors);
+            }
         }
-        catch (error) {
-            if (error instanceof ParsingError) errors.push(error);
+        return results.map(([, item]) => item as T);
+    });
+};
+
+// JSON bodies of tuples, sets and maps are read completely and then parsed
+function collectionStreamParser<T>(options: {message?: IssueMessage} & JSONStreamOptions) {
+    return (_parser: RawParser<T>, asyncParser: AsyncParser<T>) => async (stream: NodeJS.ReadableStream, path?: string | FieldPath, streamOptions?: StreamOptions): Promise<T> => {
+        if (await bodyFormat(stream, toPath(path), streamOptions, ["json", "text"], options.message) === "text") {
+            return asyncParser(await streamToBuffer(stream), path);
         }
+        return asyncParser(await parseJSONStream(stream, toPath(path), {}, options), path);
+    };
+}
+
+type TupleItems<T extends ReadonlyArray<Parser<unknown>>> = { -readonly [K in keyof T]: T[K] extends Parser<infer U> ? U : never };
+
+type TupleResult<T extends ReadonlyArray<Parser<unknown>>, R> = [R] extends [never] ? TupleItems<T> : [...TupleItems<T>, ...Array<R>];
+
+/**
+ * Parses an array with a parser per position. Trailing optional items can be left out, items after them are parsed by rest
+ */
+export const tuple = <const T extends ReadonlyArray<Parser<unknown>>, R = never>(
+    items: T,
+    options: { rest?: Parser<R>; message?: IssueMessage } & JSONStreamOptions = {}
+) => {
+    let min = items.length;
+    while (min > 0 && ["optional", "defaultValue"].includes(items[min - 1]!.meta?.kind ?? "")) min--;
+
+    const checkLength = (value: Array<unknown>, path?: string | FieldPath) => {
+        if (value.length < min) {
+            throw createError("too_small", path, value, {min, type: "array"}, options.message);
+        }
+        if (!options.rest && value.length > items.length) {
+            throw createError("too_big", path, value, {max: items.length, type: "array"}, options.message);
+        }
+    };
+
+    const tasks = (value: Array<unknown>, path?: string | FieldPath): Array<FieldTask> =>
+        Array.from({length: Math.max(value.length, items.length)}, (_, index) =>
+            ({key: index, parser: items[index] ?? options.rest, value: value[index], path: [...toPath(path), index]}));
+
+    const build = ({results, errors}: TaskResults) => {
+        if (errors.length > 0) throw mergeErrors(errors);
+        return results.map(([, item]) => item) as TupleResult<T, R>;
+    };
+
+    return createParser((value, path): TupleResult<T, R> => {
+        if (!Array.isArray(value)) return tuple(items, options)(parseJSON(value, path, "array", options.message), path);
+        checkLength(value, path);
+        return build(runTasks(tasks(value, path)));
+    }, collectionStreamParser(options), {kind: "tuple", options, parsers: items, inner: options.rest}, () => async (value, path): Promise<TupleResult<T, R>> => {
+        if (!Array.isArray(value)) return tuple(items, options).async(parseJSON(value, path, "array", options.message), path);
+        checkLength(value, path);
+        return build(await runTasksAsync(tasks(value, path)));
     });
+};
 
-    if (errors.length > 0) {
-        try {
-            return [parser(value, `${path}[0]`)];
+// parsed values are compared like Set members, dates by their time
+const uniqueKey = (value: unknown) => value instanceof Date ? `Date(${value.getTime()})` : value;
+
+function checkSize(size: number, type: "set" | "map", value: unknown, options: { min?: number; max?: number; message?: IssueMessage }, path?: string | FieldPath) {
+    if (options.min !== undefined && size < options.min) {
+        throw createError("too_small", path, value, {min: options.min, type}, options.message);
+    }
+    if (options.max !== undefined && size > options.max) {
+        throw createError("too_big", path, value, {max: options.max, type}, options.message);
+    }
+}
+
+/**
+ * Parses an array (or a Set) into a Set, duplicates are rejected with not_unique issues at their index
+ */
+export const set = <T>(
+    parser: Parser<T>,
+    options: { min?: number; max?: number; message?: IssueMessage } & JSONStreamOptions = {}
+) => {
+    const tasks = (value: Array<unknown>, path?: string | FieldPath): Array<FieldTask> =>
+        value.map((item, index) => ({key: index, parser, value: item, path: [...toPath(path), index]}));
+
+    const build = (value: Array<unknown>, {results, errors}: TaskResults, path?: string | FieldPath): Set<T> => {
+        const keys = new Set<unknown>();
+        const items = new Set<T>();
+        for (const [index, item] of results) {
+            if (keys.has(uniqueKey(item))) {
+                errors.push(createError("not_unique", [...toPath(path), index], value[index as number], {}, options.message));
+            }
+            keys.add(uniqueKey(item));
+            items.add(item as T);
         }
-        catch (error) {
-            const fieldErrors: Array<{path: string | undefined, issue: string, rejectedValue: any}> = [];
-            errors.forEach(({fields}) => {
-                fieldErrors.push(...fields);
+        if (errors.length > 0) throw mergeErrors(errors);
+        return items;
+    };
+
+    const items = (value: unknown, path?: string | FieldPath): Array<unknown> => {
+        if (value instanceof Set) return [...value];
+        if (Array.isArray(value)) return value;
+        const parsed = parseJSON(value, path, "array", options.message);
+        if (!Array.isArray(parsed)) throw createError("invalid_type", path, value, {expected: "array"}, options.message);
+        return parsed;
+    };
+
+    return createParser((value, path): Set<T> => {
+        const list = items(value, path);
+        checkSize(list.length, "set", value, options, path);
+        return build(list, runTasks(tasks(list, path)), path);
+    }, collectionStreamParser(options), {kind: "set", options, inner: parser}, () => async (value, path): Promise<Set<T>> => {
+        const list = items(value, path);
+        checkSize(list.length, "set", value, options, path);
+        return build(list, await runTasksAsync(tasks(list, path)), path);
+    });
+};
+
+type MapEntry = {key: unknown, value: unknown, keyPath: FieldPath, valuePath: FieldPath};
+
+/**
+ * Parses an object, a Map or an array of [key, value] entries into a Map.
+ * Errors of entry arrays are reported at [index, 0] (key) and [index, 1] (value), duplicate keys as not_unique issues
+ */
+export const map = <K, V>(
+    keyParser: Parser<K>,
+    valueParser: Parser<V>,
+    options: { min?: number; max?: number; message?: IssueMessage } & JSONStreamOptions = {}
+) => {
+    const entries = (value: unknown, path?: string | FieldPath): Array<MapEntry> => {
+        const base = toPath(path);
+        if (Array.isArray(value)) {
+            return value.map((entry: unknown, index) => {
+                if (!Array.isArray(entry) || entry.length !== 2) {
+                    throw createError("invalid_type", [...base, index], entry, {expected: "entry"}, options.message);
+                }
+                return {key: entry[0], value: entry[1], keyPath: [...base, index, 0], valuePath: [...base, index, 1]};
             });
-            throw new ParsingError(errors.map(error => error.message).join('\n'), fieldErrors);
         }
-    }
-    return ret;
-})
+        if (value instanceof Map) {
+            return [...value].map(([key, item]) => ({key, value: item, keyPath: [...base, String(key)], valuePath: [...base, String(key)]}));
+        }
+        if (isObjectLike(value)) {
+            return Object.entries(value).map(([key, item]) => ({key, value: item, keyPath: [...base, key], valuePath: [...base, key]}));
+        }
+        const parsed = parseJSON(value, path, "map", options.message);
+        if (!isObjectLike(parsed)) throw createError("invalid_type", path, value, {expected: "map"}, options.message);
+        return entries(parsed, path);
+    };
+
+    const tasks = (list: Array<MapEntry>): Array<FieldTask> => list.flatMap((entry, index) => [
+        {key: `${index}:key`, parser: keyParser, value: entry.key, path: entry.keyPath},
+        {key: `${index}:value`, parser: valueParser, value: entry.value, path: entry.valuePath}
+    ]);
+
+    const build = (list: Array<MapEntry>, {results, errors}: TaskResults): Map<K, V> => {
+        const parsed = new Map(results);
+        const keys = new Set<unknown>();
+        const result = new Map<K, V>();
+        list.forEach((entry, index) => {
+            if (!parsed.has(`${index}:key`)) return;
+            const key = parsed.get(`${index}:key`) as K;
+            if (keys.has(uniqueKey(key))) {
+                errors.push(createError("not_unique", entry.keyPath, entry.key, {}, options.message));
+            }
+            keys.add(uniqueKey(key));
+            if (parsed.has(`${index}:value`)) result.set(key, parsed.get(`${index}:value`) as V);
+        });
+        if (errors.length > 0) throw mergeErrors(errors);
+        return result;
+    };
+
+    return createParser((value, path): Map<K, V> => {
+        const list = entries(value, path);
+        checkSize(list.length, "map", value, options, path);
+        return build(list, runTasks(tasks(list)));
+    }, collectionStreamParser(options), {kind: "map", options, key: keyParser, inner: valueParser}, () => async (value, path): Promise<Map<K, V>> => {
+        const list = entries(value, path);
+        checkSize(list.length, "map", value, options, path);
+        return build(list, await runTasksAsync(tasks(list)));
+    });
+};
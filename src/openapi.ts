@@ -0,0 +1,121 @@
+import {STATUS_CODES} from "node:http";
+import type {Parser} from "./base.js";
+import {type JSONSchema, toJSONSchema, hasFileFields, toMultipartEncoding} from "./schema.js";
+
+export type HttpMethod = "get" | "put" | "post" | "delete" | "options" | "head" | "patch" | "trace";
+
+export type ResponseDescription = Parser<unknown> | {
+    description?: string;
+    parser?: Parser<unknown>;
+    contentType?: string;
+};
+
+export interface RouteDescription {
+    method: HttpMethod;
+    // OpenAPI style (/users/{id}) or express style (/users/:id)
+    path: string;
+    operationId?: string;
+    summary?: string;
+    description?: string;
+    tags?: Array<string>;
+    body?: Parser<unknown>;
+    query?: Parser<unknown>;
+    params?: Parser<unknown>;
+    headers?: Parser<unknown>;
+    responses?: Record<number | string, ResponseDescription>;
+}
+
+export interface OpenAPIInfo {
+    title: string;
+    version: string;
+    description?: string;
+}
+
+export type OpenAPIDocument = {
+    openapi: string;
+    info: OpenAPIInfo;
+    servers?: Array<{url: string, description?: string}>;
+    paths: Record<string, Record<string, JSONSchema>>;
+};
+
+// Identity helper which keeps route descriptions typed when they're declared separately
+export const route = (description: RouteDescription): RouteDescription => description;
+
+function schemaOf(parser: Parser<unknown>): JSONSchema {
+    const {$schema, ...schema} = toJSONSchema(parser);
+    return schema;
+}
+
+function parameters(parser: Parser<unknown> | undefined, location: "query" | "path" | "header"): Array<JSONSchema> {
+    if (!parser) return [];
+    const schema = schemaOf(parser);
+    const properties = (schema.properties ?? {}) as Record<string, JSONSchema>;
+    const required = (schema.required ?? []) as Array<string>;
+    return Object.entries(properties).map(([name, propertySchema]) => ({
+        name,
+        in: location,
+        required: location === "path" || required.includes(name),
+        schema: propertySchema
+    }));
+}
+
+function requestBody(parser: Parser<unknown>): JSONSchema {
+    const schema = schemaOf(parser);
+    const content: Record<string, JSONSchema> = {"application/json": {schema}};
+    if (hasFileFields(parser)) {
+        content["multipart/form-data"] = {schema, encoding: toMultipartEncoding(parser)};
+    }
+    return {required: !["optional", "defaultValue"].includes(parser.meta?.kind ?? ""), content};
+}
+
+function response(status: string, description: ResponseDescription): JSONSchema {
+    const {parser, contentType = "application/json", description: text} = typeof description === "function" ? {parser: description} : description;
+    return {
+        description: text ?? STATUS_CODES[Number(status)] ?? "Response",
+        ...(parser ? {content: {[contentType]: {schema: schemaOf(parser)}}} : {})
+    };
+}
+
+function operation(routeDescription: RouteDescription): JSONSchema {
+    const {operationId, summary, description, tags, body, query, params, headers, responses = {}} = routeDescription;
+    const result: JSONSchema = {};
+    if (operationId) result.operationId = operationId;
+    if (summary) result.summary = summary;
+    if (description) result.description = description;
+    if (tags) result.tags = tags;
+
+    const parameterList = [...parameters(params, "path"), ...parameters(query, "query"), ...parameters(headers, "header")];
+    if (parameterList.length > 0) result.parameters = parameterList;
+    if (body) result.requestBody = requestBody(body);
+
+    result.responses = Object.fromEntries(Object.entries(responses).map(([status, description]) => [status, response(status, description)]));
+    return result;
+}
+
+/**
+ * Generates an OpenAPI 3.1 document from route descriptions.
+ * Shapes with file() fields get both application/json and multipart/form-data request bodies
+ *
+ * @param info - title, version and description of the API
+ * @param routes - route descriptions (method, path, parsers for body, query, params, headers and responses)
+ * @param options - servers to include in the document
+ */
+export function toOpenAPI(
+    info: OpenAPIInfo,
+    routes: Array<RouteDescription>,
+    options: { servers?: Array<{url: string, description?: string}> } = {}
+): OpenAPIDocument {
+    const paths: OpenAPIDocument["paths"] = {};
+    for (const routeDescription of routes) {
+        const path = routeDescription.path.replace(/:([A-Za-z0-9_]+)/g, "{$1}");
+        paths[path] ??= {};
+        paths[path][routeDescription.method] = operation(routeDescription);
+    }
+
+    return {
+        openapi: "3.1.0",
+        info,
+        ...(options.servers ? {servers: options.servers} : {}),
+        paths
+    };
+}
@@ -0,0 +1,219 @@
+import {anyField, type Parser} from "./base.js";
+import {unknownKeysMode} from "./object.js";
+import {formatPatterns} from "./formats.js";
+
+export type JSONSchema = {[key: string]: unknown};
+
+const optionalKinds = ["optional", "defaultValue"];
+
+function isOptional(parser: Parser<unknown>): boolean {
+    return optionalKinds.includes(parser.meta?.kind ?? "");
+}
+
+function isFile(parser: Parser<unknown>): boolean {
+    const meta = parser.meta;
+    if (!meta) return false;
+    if (meta.kind === "file" || meta.kind === "csv") return true;
+    if (["array", "nullable", "refine", ...optionalKinds].includes(meta.kind)) return !!meta.inner && isFile(meta.inner);
+    return false;
+}
+
+function lengthConstraints(options: Record<string, unknown> | undefined, minKey: string, maxKey: string): JSONSchema {
+    const schema: JSONSchema = {};
+    if (options?.min !== undefined) schema[minKey] = options.min;
+    if (options?.max !== undefined) schema[maxKey] = options.max;
+    return schema;
+}
+
+function numberConstraints(options: Record<string, unknown> | undefined): JSONSchema {
+    const schema = lengthConstraints(options, "minimum", "maximum");
+    if (options?.positive) schema.exclusiveMinimum = 0;
+    if (options?.nonNegative) schema.minimum = Math.max(0, (schema.minimum as number | undefined) ?? 0);
+    if (options?.multipleOf !== undefined) schema.multipleOf = options.multipleOf;
+    return schema;
+}
+
+// string options (min, max, length, pattern) of strings and string formats
+function stringSchema(options: Record<string, unknown> | undefined, format?: string): JSONSchema {
+    const schema: JSONSchema = {type: "string", ...(format ? {format} : {}), ...lengthConstraints(options, "minLength", "maxLength")};
+    if (typeof options?.length === "number") {
+        schema.minLength = options.length;
+        schema.maxLength = options.length;
+    }
+    const pattern = format ? formatPatterns[format] : undefined;
+    if (pattern) schema.pattern = pattern.source;
+    if (options?.pattern instanceof RegExp) {
+        if (pattern) schema.allOf = [{pattern: options.pattern.source}];
+        else schema.pattern = options.pattern.source;
+    }
+    return schema;
+}
+
+function convert(parser: Parser<unknown>): JSONSchema {
+    const meta = parser.meta;
+    if (!meta) return {};
+    const options = meta.options;
+
+    switch (meta.kind) {
+        case "buffer":
+            return {type: "string", contentMediaType: "application/octet-stream"};
+        case "string":
+            return stringSchema(options);
+        case "int":
+            return {type: "integer", ...numberConstraints(options)};
+        case "float":
+            return {type: "number", ...numberConstraints(options)};
+        case "bigint":
+            return {type: "integer"};
+        case "decimal":
+            return {type: "string", format: "decimal"};
+        case "boolean":
+            return {type: "boolean"};
+        case "file":
+            return {type: "string", format: "binary", contentMediaType: "application/octet-stream"};
+        case "csv":
+            return {type: "string", contentMediaType: "text/csv"};
+        case "date":
+            return {type: "string", format: "date-time"};
+        case "isoDateOnly":
+            return {type: "string", format: "date", ...lengthConstraints(options, "formatMinimum", "formatMaximum")};
+        case "time":
+            return {type: "string", format: "time"};
+        case "duration":
+            return {type: "string", format: "duration"};
+        case "uuid":
+            return {type: "string", format: "uuid"};
+        case "url":
+            return stringSchema(options, "uri");
+        case "ipv4":
+        case "ipv6":
+        case "hostname":
+        case "cidr":
+        case "ulid":
+        case "cuid":
+        case "semver":
+        case "hex":
+        case "jwt":
+        case "phone":
+        case "slug":
+            return stringSchema(options, meta.kind);
+        case "base64":
+        case "base64url":
+            return {type: "string", contentEncoding: meta.kind};
+        case "email":
+            return stringSchema(options, "email");
+        case "object": {
+            const shape = meta.shape ?? {};
+            const properties: Record<string, JSONSchema> = {};
+            const required: Array<string> = [];
+            for (const key of Object.keys(shape)) {
+                const field = shape[key]!;
+                properties[key] = convert(field);
+                if (!isOptional(field)) required.push(key);
+            }
+            const schema: JSONSchema = {type: "object", properties};
+            if (required.length > 0) schema.required = required;
+            const anyFieldParser = shape[anyField];
+            if (anyFieldParser) schema.additionalProperties = convert(anyFieldParser);
+            else if (unknownKeysMode(options ?? {}) === "strict") schema.additionalProperties = false;
+            return schema;
+        }
+        case "record":
+            return {
+                type: "object",
+                ...(meta.key ? {propertyNames: convert(meta.key)} : {}),
+                additionalProperties: meta.inner ? convert(meta.inner) : {}
+            };
+        case "array":
+            return {type: "array", items: meta.inner ? convert(meta.inner) : {}, ...lengthConstraints(options, "minItems", "maxItems")};
+        case "jsonLines":
+        case "jsonArray":
+            return {type: "array", items: meta.inner ? convert(meta.inner) : {}, ...(options?.maxRecords !== undefined ? {maxItems: options.maxRecords} : {})};
+        case "tuple": {
+            const items = meta.parsers ?? [];
+            const minItems = items.length - [...items].reverse().findIndex(item => !["optional", "defaultValue"].includes(item.meta?.kind ?? ""));
+            return {
+                type: "array",
+                prefixItems: items.map(convert),
+                items: meta.inner ? convert(meta.inner) : false,
+                minItems: minItems > items.length ? 0 : minItems,
+                ...(meta.inner ? {} : {maxItems: items.length})
+            };
+        }
+        case "set":
+            return {type: "array", uniqueItems: true, items: meta.inner ? convert(meta.inner) : {}, ...lengthConstraints(options, "minItems", "maxItems")};
+        case "map":
+            return {
+                type: "object",
+                ...(meta.key ? {propertyNames: convert(meta.key)} : {}),
+                additionalProperties: meta.inner ? convert(meta.inner) : {},
+                ...lengthConstraints(options, "minProperties", "maxProperties")
+            };
+        case "oneOf":
+        case "nativeEnum":
+            return {enum: [...(meta.values ?? [])]};
+        case "literal":
+            return {const: meta.values?.[0]};
+        case "discriminatedUnion": {
+            const discriminator = options?.discriminator as string;
+            return {
+                oneOf: Object.entries(meta.branches ?? {}).map(([tag, branch]) => {
+                    const schema = convert(branch);
+                    const required = (schema.required ?? []) as Array<string>;
+                    return {
+                        ...schema,
+                        properties: {...(schema.properties ?? {}), [discriminator]: {const: tag}},
+                        required: required.includes(discriminator) ? required : [discriminator, ...required]
+                    };
+                })
+            };
+        }
+        case "alternatives":
+            return {anyOf: (meta.parsers ?? []).map(convert)};
+        case "optional":
+        case "transform":
+        case "refine":
+            return meta.inner ? convert(meta.inner) : {};
+        case "nullable":
+            return {anyOf: [meta.inner ? convert(meta.inner) : {}, {type: "null"}]};
+        case "defaultValue":
+            return {...(meta.inner ? convert(meta.inner) : {}), default: meta.default};
+        default:
+            return {};
+    }
+}
+
+/**
+ * Converts a parser into a JSON Schema (draft 2020-12) describing the values it accepts.
+ * Parsers without metadata (e.g. custom parsers created without it) are described as {}
+ */
+export function toJSONSchema(parser: Parser<unknown>): JSONSchema {
+    return {$schema: "https://json-schema.org/draft/2020-12/schema", ...convert(parser)};
+}
+
+/**
+ * Returns true if an object parser has file fields, so it should be sent as multipart/form-data
+ */
+export function hasFileFields(parser: Parser<unknown>): boolean {
+    const shape = parser.meta?.shape;
+    if (!shape) return false;
+    return Object.values(shape).some(isFile) || (!!shape[anyField] && isFile(shape[anyField]));
+}
+
+/**
+ * Describes how fields of an object parser are encoded in a multipart/form-data body
+ * (the OpenAPI "encoding" object). File fields are sent as binary parts, other fields as text
+ */
+export function toMultipartEncoding(parser: Parser<unknown>): Record<string, {contentType: string}> {
+    const encoding: Record<string, {contentType: string}> = {};
+    const shape = parser.meta?.shape ?? {};
+    for (const key of Object.keys(shape)) {
+        const field = shape[key]!;
+        if (field.meta?.kind === "csv") encoding[key] = {contentType: "text/csv"};
+        else if (isFile(field)) encoding[key] = {contentType: "application/octet-stream"};
+        else if (convert(field).type === "object") encoding[key] = {contentType: "application/json"};
+        else encoding[key] = {contentType: "text/plain"};
+    }
+    return encoding;
+}
+
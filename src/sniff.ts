@@ -0,0 +1,242 @@
+import crypto from "crypto";
+import {type File, type FileInfo, type FieldPath, type IssueMessage, RAMFile, TempFile, ParsingError, AsyncParsingRequiredError, createError} from "./base.js";
+
+export type ContentOptions = {
+    // allowed types, e.g. "image/png" or "image/*". The detected type is checked with sniff, the client-supplied type otherwise
+    accept?: Array<string>;
+    // detect the type from magic bytes (file.detectedMimeType), a client-supplied type which can be detected has to match it
+    sniff?: boolean;
+    // digest algorithm, e.g. "sha256" (file.digest, hex)
+    hash?: string;
+    // minimum size in bytes
+    minSize?: number;
+    // maximum image dimensions (file.width, file.height) of PNG, JPEG, GIF and WebP images
+    maxWidth?: number;
+    maxHeight?: number;
+    message?: IssueMessage;
+};
+
+// magic bytes at the start of a file, null matches any byte
+const signatures: Array<[string, Array<number | null>]> = [
+    ["image/png", [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]],
+    ["image/jpeg", [0xFF, 0xD8, 0xFF]],
+    ["image/gif", [...Buffer.from("GIF87a")]],
+    ["image/gif", [...Buffer.from("GIF89a")]],
+    ["image/webp", [...Buffer.from("RIFF"), null, null, null, null, ...Buffer.from("WEBP")]],
+    ["image/bmp", [...Buffer.from("BM")]],
+    ["image/tiff", [0x49, 0x49, 0x2A, 0x00]],
+    ["image/tiff", [0x4D, 0x4D, 0x00, 0x2A]],
+    ["application/pdf", [...Buffer.from("%PDF-")]],
+    ["application/zip", [0x50, 0x4B, 0x03, 0x04]],
+    ["application/gzip", [0x1F, 0x8B]],
+    ["audio/wav", [...Buffer.from("RIFF"), null, null, null, null, ...Buffer.from("WAVE")]],
+    ["audio/ogg", [...Buffer.from("OggS")]],
+    ["audio/mpeg", [...Buffer.from("ID3")]],
+    ["video/mp4", [null, null, null, null, ...Buffer.from("ftyp")]]
+];
+
+// other names of the detected types which clients send
+const aliases: Record<string, string> = {
+    "image/jpg": "image/jpeg",
+    "image/pjpeg": "image/jpeg",
+    "application/x-pdf": "application/pdf",
+    "application/x-zip-compressed": "application/zip",
+    "application/x-gzip": "application/gzip",
+    "audio/x-wav": "audio/wav",
+    "audio/wave": "audio/wav",
+    "audio/mp3": "audio/mpeg"
+};
+
+// bytes needed to detect any of the types
+const SNIFF_BYTES = 12;
+// image dimensions are searched in the first 64KB (JPEG metadata can precede them)
+const HEADER_BYTES = 64 * 1024;
+
+/**
+ * Detects the MIME type of a file from its first bytes
+ */
+export function sniffMimeType(header: Buffer): string | undefined {
+    return signatures.find(([, bytes]) => bytes.length <= header.length && bytes.every((byte, index) => byte === null || header[index] === byte))?.[0];
+}
+
+function jpegDimensions(header: Buffer): {width: number, height: number} | undefined {
+    let offset = 2;
+    while (offset + 9 <= header.length) {
+        if (header[offset] !== 0xFF) return undefined;
+        const marker = header[offset + 1]!;
+        // SOF markers, except DHT (C4), JPG (C8) and DAC (CC)
+        if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+            return {width: header.readUInt16BE(offset + 7), height: header.readUInt16BE(offset + 5)};
+        }
+        offset += 2 + header.readUInt16BE(offset + 2);
+    }
+    return undefined;
+}
+
+/**
+ * Reads the dimensions of a PNG, JPEG, GIF or WebP image from its header
+ */
+export function imageDimensions(header: Buffer, mimeType: string | undefined = sniffMimeType(header)): {width: number, height: number} | undefined {
+    if (mimeType === "image/png" && header.length >= 24) {
+        return {width: header.readUInt32BE(16), height: header.readUInt32BE(20)};
+    }
+    if (mimeType === "image/gif" && header.length >= 10) {
+        return {width: header.readUInt16LE(6), height: header.readUInt16LE(8)};
+    }
+    if (mimeType === "image/jpeg") {
+        return jpegDimensions(header);
+    }
+    if (mimeType === "image/webp" && header.length >= 30) {
+        const format = header.toString("latin1", 12, 16);
+        if (format === "VP8 ") return {width: header.readUInt16LE(26) & 0x3FFF, height: header.readUInt16LE(28) & 0x3FFF};
+        if (format === "VP8X") return {width: 1 + header.readUIntLE(24, 3), height: 1 + header.readUIntLE(27, 3)};
+        if (format === "VP8L") {
+            const bits = header.readUInt32LE(21);
+            return {width: 1 + (bits & 0x3FFF), height: 1 + ((bits >> 14) & 0x3FFF)};
+        }
+    }
+    return undefined;
+}
+
+// "image/*" matches all images
+export function matchesMediaType(mimeType: string | undefined, patterns: Array<string>): boolean {
+    const type = mimeType?.toLowerCase();
+    return patterns.some(pattern => pattern.endsWith("/*") ? !!type?.startsWith(pattern.slice(0, -1).toLowerCase()) : type === pattern.toLowerCase());
+}
+
+export function needsInspection(options: ContentOptions): boolean {
+    return !!(options.sniff || options.hash || options.maxWidth !== undefined || options.maxHeight !== undefined);
+}
+
+// the content is checked while streaming, so rejected files aren't stored
+export function checksContent(options: ContentOptions): boolean {
+    return needsInspection(options) || options.accept !== undefined || options.minSize !== undefined;
+}
+
+// files inspected while streaming aren't read again by the file parser
+const inspected = new WeakSet<File>();
+
+function checkType(mimeType: string | undefined, filename: string | undefined, options: ContentOptions, path?: string | FieldPath) {
+    if (options.accept && !matchesMediaType(mimeType, options.accept)) {
+        throw createError("unsupported_media_type", path, filename, {contentType: mimeType ?? "unknown", filename, supported: options.accept}, options.message);
+    }
+}
+
+// with sniff the detected type is checked, types without magic bytes (e.g. text/csv) can't be detected so the declared type is checked instead.
+// A declared type which could be detected has to be the detected one
+function checkSniffedType(detectedMimeType: string | undefined, info: FileInfo, options: ContentOptions, path?: string | FieldPath) {
+    const declared = info.mimeType?.toLowerCase();
+    const canonical = declared && (aliases[declared] ?? declared);
+    if (canonical && signatures.some(([mimeType]) => mimeType === canonical) && canonical !== detectedMimeType) {
+        throw createError("unsupported_media_type", path, info.filename, {contentType: detectedMimeType ?? "unknown", filename: info.filename, supported: [info.mimeType]}, options.message);
+    }
+    checkType(detectedMimeType ?? info.mimeType, info.filename, options, path);
+}
+
+function checkDimensions(dimensions: {width: number, height: number}, options: ContentOptions, path?: string | FieldPath) {
+    if (options.maxWidth !== undefined && dimensions.width > options.maxWidth) {
+        throw createError("too_big", path, dimensions.width, {max: options.maxWidth, type: "width"}, options.message);
+    }
+    if (options.maxHeight !== undefined && dimensions.height > options.maxHeight) {
+        throw createError("too_big", path, dimensions.height, {max: options.maxHeight, type: "height"}, options.message);
+    }
+}
+
+// properties of a file which are set by the inspector
+type InspectedContent = Pick<File, "detectedMimeType" | "digest" | "width" | "height">;
+
+/**
+ * Checks the type, size and image dimensions of a file (set by the inspector)
+ */
+export function validateContent(file: FileInfo & InspectedContent & {size: number}, options: ContentOptions, path?: string | FieldPath) {
+    if (options.sniff) checkSniffedType(file.detectedMimeType, file, options, path);
+    else checkType(file.mimeType, file.filename, options, path);
+    if (options.minSize !== undefined && file.size < options.minSize) {
+        throw createError("too_small", path, file.filename, {min: options.minSize, type: "file"}, options.message);
+    }
+    if (file.width !== undefined && file.height !== undefined) checkDimensions({width: file.width, height: file.height}, options, path);
+}
+
+/**
+ * Inspects the content of a file while it's streamed: sniffs the type, computes the digest and reads image dimensions.
+ * write throws as soon as the type or the dimensions aren't allowed, check validates the whole content before the file is stored,
+ * end sets the results on the stored file
+ */
+export class ContentInspector {
+    private hash?: crypto.Hash;
+    private header = Buffer.alloc(0);
+    private mimeType?: string;
+    private dimensions?: {width: number, height: number};
+    private content?: InspectedContent;
+
+    constructor(private options: ContentOptions, private info: FileInfo = {}, private path?: string | FieldPath) {
+        if (options.hash) this.hash = crypto.createHash(options.hash);
+    }
+
+    public write(chunk: Buffer): void {
+        this.hash?.update(chunk);
+        if (this.dimensions || this.header.length >= HEADER_BYTES) return;
+        if (!this.options.sniff && this.options.maxWidth === undefined && this.options.maxHeight === undefined) return;
+
+        const sniffed = this.header.length >= SNIFF_BYTES;
+        this.header = Buffer.concat([this.header, chunk.subarray(0, HEADER_BYTES - this.header.length)]);
+        if (!sniffed && this.header.length >= SNIFF_BYTES) {
+            this.mimeType = sniffMimeType(this.header);
+            if (this.options.sniff) checkSniffedType(this.mimeType, this.info, this.options, this.path);
+        }
+        if (this.header.length >= SNIFF_BYTES) {
+            this.dimensions = imageDimensions(this.header, this.mimeType);
+            if (this.dimensions) checkDimensions(this.dimensions, this.options, this.path);
+        }
+    }
+
+    public check(info: FileInfo, size: number): void {
+        const dimensions = this.dimensions ?? imageDimensions(this.header);
+        this.content = {
+            ...(this.options.sniff ? {detectedMimeType: this.mimeType ?? sniffMimeType(this.header)} : {}),
+            ...(this.hash ? {digest: this.hash.digest("hex")} : {}),
+            ...dimensions
+        };
+        validateContent({...info, ...this.content, size}, this.options, this.path);
+    }
+
+    public end(file: File): void {
+        if (!this.content) this.check(file, file.size);
+        Object.assign(file, this.content);
+        inspected.add(file);
+    }
+}
+
+/**
+ * Inspects a file which wasn't inspected while streaming (e.g. created from a Buffer) and validates it.
+ * Files which can only be read asynchronously (e.g. RemoteFile) need inspectFileAsync
+ */
+export function inspectFile(file: File, options: ContentOptions, path?: string | FieldPath) {
+    if (!needsInspection(options) || inspected.has(file)) {
+        validateContent(file, options, path);
+        return;
+    }
+    if (!(file instanceof RAMFile || file instanceof TempFile)) throw new AsyncParsingRequiredError(path);
+    const inspector = new ContentInspector(options, file, path);
+    inspector.write(file.readSync());
+    inspector.end(file);
+}
+
+/**
+ * Inspects a file like inspectFile, reading it as a stream
+ */
+export async function inspectFileAsync(file: File, options: ContentOptions, path?: string | FieldPath) {
+    if (!needsInspection(options) || inspected.has(file)) {
+        validateContent(file, options, path);
+        return;
+    }
+    const inspector = new ContentInspector(options, file, path);
+    try {
+        for await (const chunk of file.createReadStream()) inspector.write(Buffer.from(chunk));
+    }
+    catch (error) {
+        if (error instanceof ParsingError) throw error;
+        throw createError("read_error", path, undefined, {reason: (error as Error).message}, options.message);
+    }
+    inspector.end(file);
+}
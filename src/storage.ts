@@ -0,0 +1,281 @@
+import Path from "path";
+import os from "os";
+import fs from "fs";
+import crypto from "crypto";
+import {PassThrough} from "stream";
+import {once} from "events";
+import {pipeline} from "stream/promises";
+import cryptoRandomString from "crypto-random-string";
+import {type File, type FileInfo, type FieldPath, type IssueMessage, RAMFile, TempFile, createError, onStreamEnd, streamToBuffer} from "./base.js";
+import type {ContentInspector} from "./sniff.js";
+
+// Receives the chunks of one file
+export interface FileWriter {
+    write(chunk: Buffer): Promise<void>;
+    // returns the stored file
+    end(): Promise<File>;
+    // removes the partially written file
+    abort(): Promise<void>;
+}
+
+// Where uploaded files are written to, used by file parsers and multipart bodies
+export interface FileStorage {
+    create(info: FileInfo): FileWriter;
+}
+
+function randomName(filename?: string): string {
+    return encodeURIComponent(cryptoRandomString({length: 20, type: "url-safe"}) + (filename ? `-${filename}` : ""));
+}
+
+/**
+ * Default storage: files are kept in RAM and moved to a temp file when they exceed maxForRAM (1MB by default)
+ */
+export const tempStorage = (options: {maxForRAM?: number, tempDir?: string} = {}): FileStorage => ({
+    create(info) {
+        let file: File = new RAMFile(info);
+        return {
+            async write(chunk) {
+                await file.append(chunk);
+                if (file instanceof RAMFile && file.size > (options.maxForRAM ?? 1024 * 1024)) {
+                    const path = Path.join(options.tempDir ?? os.tmpdir(), randomName(info.filename));
+                    await file.save(path);
+                    file = new TempFile(path, file.size, info);
+                }
+            },
+            end: async () => file,
+            abort: () => file.dispose()
+        };
+    }
+});
+
+/**
+ * Keeps all files in RAM, stored files are listed in files (e.g. for tests)
+ */
+export const memoryStorage = (): FileStorage & {files: Array<RAMFile>} => {
+    const files: Array<RAMFile> = [];
+    return {
+        files,
+        create(info) {
+            const file = new RAMFile(info);
+            return {
+                write: chunk => file.append(chunk),
+                async end() {
+                    files.push(file);
+                    return file;
+                },
+                abort: () => file.dispose()
+            };
+        }
+    };
+};
+
+// File of a directory store, named by the SHA-256 hash of its content. It's kept on dispose
+export class StoredFile extends TempFile {
+    constructor(path: string, size: number, public hash: string, fileInfo?: FileInfo) {
+        super(path, size, fileInfo);
+    }
+
+    public override async dispose(): Promise<void> {}
+}
+
+/**
+ * Content-addressed store: files are written to the directory and named by the SHA-256 hash of their content,
+ * so identical uploads are stored once
+ */
+export const directoryStorage = (directory: string): FileStorage => ({
+    create(info) {
+        const hash = crypto.createHash("sha256");
+        const partPath = Path.join(directory, `.${randomName()}.part`);
+        let size = 0;
+        return {
+            async write(chunk) {
+                hash.update(chunk);
+                size += chunk.byteLength;
+                await fs.promises.appendFile(partPath, chunk);
+            },
+            async end() {
+                const digest = hash.digest("hex");
+                const path = Path.join(directory, digest);
+                if (size === 0) await fs.promises.writeFile(partPath, "");
+                await fs.promises.rename(partPath, path);
+                return new StoredFile(path, size, digest, info);
+            },
+            abort: () => fs.promises.rm(partPath, {force: true})
+        };
+    }
+});
+
+// Minimal client of an object store (S3, MinIO, GCS...), adapt your SDK to it
+export interface ObjectStoreClient {
+    put(key: string, body: NodeJS.ReadableStream, info: FileInfo): Promise<unknown>;
+    get(key: string): NodeJS.ReadableStream | Promise<NodeJS.ReadableStream>;
+    delete(key: string): Promise<unknown>;
+}
+
+// File uploaded to an object store. Synchronous methods aren't supported, dispose deletes the object
+export class RemoteFile implements File {
+    filename?: string;
+    encoding?: string;
+    mimeType?: string;
+    // false after move or keep
+    private temporary = true;
+
+    constructor(private client: ObjectStoreClient, public key: string, public size: number, fileInfo?: FileInfo) {
+        this.filename = fileInfo?.filename;
+        this.encoding = fileInfo?.encoding;
+        this.mimeType = fileInfo?.mimeType;
+    }
+
+    public async append(_buffer: Buffer): Promise<void> {
+        throw new Error("RemoteFile can't be appended to");
+    }
+
+    public appendSync(_buffer: Buffer): void {
+        throw new Error("RemoteFile can't be appended to");
+    }
+
+    public async read(): Promise<Buffer> {
+        return streamToBuffer(await this.client.get(this.key));
+    }
+
+    public readSync(): Buffer {
+        throw new Error("RemoteFile can't be read synchronously");
+    }
+
+    public async save(path: string): Promise<void> {
+        await pipeline(await this.client.get(this.key), fs.createWriteStream(path));
+    }
+
+    public saveSync(_path: string): void {
+        throw new Error("RemoteFile can't be saved synchronously");
+    }
+
+    // downloads the file and deletes the object
+    public async move(path: string): Promise<void> {
+        await this.save(path);
+        await this.client.delete(this.key);
+        this.temporary = false;
+    }
+
+    // keeps the object in the store, it isn't deleted by dispose (also of a failed parse or parseScope) anymore
+    public keep(): void {
+        this.temporary = false;
+    }
+
+    public async dispose(): Promise<void> {
+        if (this.temporary) await this.client.delete(this.key);
+        this.temporary = false;
+    }
+
+    public [Symbol.asyncDispose](): Promise<void> {
+        return this.dispose();
+    }
+
+    createReadStream(): NodeJS.ReadableStream {
+        const stream = new PassThrough();
+        Promise.resolve(this.client.get(this.key)).then(
+            body => body.on('error', (err: Error) => stream.destroy(err)).pipe(stream),
+            (err: Error) => stream.destroy(err)
+        );
+        return stream;
+    }
+}
+
+/**
+ * Streams files into an object store while the body is read
+ *
+ * @param client - object store client
+ * @param options - prefix of generated keys or a function returning the key of a file
+ */
+export const objectStorage = (client: ObjectStoreClient, options: {prefix?: string, key?: (info: FileInfo) => string} = {}): FileStorage => ({
+    create(info) {
+        const key = options.key?.(info) ?? (options.prefix ?? "") + randomName(info.filename);
+        const body = new PassThrough();
+        const upload = Promise.resolve().then(() => client.put(key, body, info));
+        let size = 0;
+        // handled by write, end and abort
+        upload.catch(() => undefined);
+        return {
+            async write(chunk) {
+                size += chunk.byteLength;
+                if (!body.write(chunk)) await Promise.race([once(body, "drain"), upload]);
+            },
+            async end() {
+                body.end();
+                await upload;
+                return new RemoteFile(client, key, size, info);
+            },
+            async abort() {
+                body.destroy();
+                await upload.catch(() => undefined);
+                await client.delete(key).catch(() => undefined);
+            }
+        };
+    }
+});
+
+/**
+ * Writes a file stream into the storage. The size (and the content with an inspector) is checked while streaming,
+ * exceeding max stops reading and removes the partial file
+ */
+export function storeFile(
+    stream: NodeJS.ReadableStream,
+    storage: FileStorage,
+    info: FileInfo,
+    options: {max?: number, message?: IssueMessage, inspector?: ContentInspector},
+    path?: string | FieldPath
+): Promise<File> {
+    return new Promise((resolve, reject) => {
+        const writer = storage.create(info);
+        // the last write, 'end' can be emitted before it finishes
+        let writing = Promise.resolve();
+        let size = 0;
+        let failed = false;
+
+        const fail = (error: unknown) => {
+            if (failed) return;
+            failed = true;
+            stream.removeListener('data', onData);
+            stream.pause();
+            writer.abort().catch(() => undefined).then(() => reject(error));
+        };
+
+        // the stream is paused while the chunk is written
+        const onData = (chunk: Buffer | string) => {
+            const buffer = Buffer.from(chunk);
+            size += buffer.byteLength;
+            if (options.max !== undefined && size > options.max) {
+                fail(createError("too_big", path, undefined, {max: options.max, type: "file"}, options.message));
+                return;
+            }
+            try {
+                options.inspector?.write(buffer);
+            }
+            catch (error) {
+                fail(error);
+                return;
+            }
+            stream.pause();
+            writing = writer.write(buffer).then(() => {
+                if (!failed) stream.resume();
+            });
+            writing.catch(fail);
+        };
+
+        stream.on('data', onData);
+        // the content is checked before the writer stores the file
+        onStreamEnd(stream, () => {
+            writing.then(() => {
+                if (failed) return;
+                options.inspector?.check(info, size);
+                return writer.end().then(file => {
+                    options.inspector?.end(file);
+                    resolve(file);
+                });
+            }).catch(fail);
+        });
+        stream.on('error', (err: Error) => {
+            fail(createError("read_error", path, undefined, {reason: err.message}, options.message));
+        });
+    });
+}
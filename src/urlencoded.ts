@@ -0,0 +1,155 @@
+import {createError, createParser, onStreamEnd, toPath, type FieldPath, type Parser} from "./base.js";
+import {object, type ObjectOptions, type ObjectResult} from "./object.js";
+
+export type UrlencodedOptions = {
+    // a.b.c is the same as a[b][c], true by default
+    allowDots?: boolean;
+    // maximum nesting depth of keys
+    maxDepth?: number;
+    // maximum size of a body in bytes
+    maxBytes?: number;
+};
+
+// nested keys are collected into null-prototype nodes, which are converted to objects and arrays at the end
+type Node = {[key: string]: Node | unknown};
+
+const isNode = (value: unknown): value is Node => typeof value === "object" && value !== null && !Array.isArray(value);
+const isIndex = (key: string) => /^(0|[1-9]\d{0,8})$/.test(key);
+
+// "user[name][]" -> ["user", "name", ""], "a.b" -> ["a", "b"], keys with malformed brackets aren't split
+function splitKey(key: string, allowDots: boolean): Array<string> {
+    const first = key.search(allowDots ? /[[.]/ : /\[/);
+    if (first <= 0) return [key];
+    const segments = [key.slice(0, first)];
+    let rest = key.slice(first);
+    while (rest.length > 0) {
+        const match = /^\[([^\][]*)\]/.exec(rest) ?? (allowDots ? /^\.([^.[\]]+)/.exec(rest) : null);
+        if (!match) return [key];
+        segments.push(match[1]!);
+        rest = rest.slice(match[0].length);
+    }
+    return segments;
+}
+
+function assign(root: Node, segments: Array<string>, value: unknown) {
+    let node = root;
+    for (const [index, segment] of segments.entries()) {
+        // "" appends (tags[]=a&tags[]=b)
+        const key = segment === "" ? String(Object.keys(node).length) : segment;
+        if (index === segments.length - 1) {
+            const existing = node[key];
+            // repeated keys are collected into arrays, like repeated multipart fields
+            if (existing === undefined || isNode(existing)) node[key] = value;
+            else node[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+            return;
+        }
+        const next = node[key];
+        node = isNode(next) ? next : (node[key] = Object.create(null) as Node);
+    }
+}
+
+// nodes with index keys only become arrays (ordered by index, without holes)
+function finalize(node: Node, nested: boolean): unknown {
+    const keys = Object.keys(node);
+    if (nested && keys.length > 0 && keys.every(isIndex)) {
+        return keys.map(Number).sort((a, b) => a - b).map(index => finalizeValue(node[index]));
+    }
+    return Object.fromEntries(keys.map(key => [key, finalizeValue(node[key])]));
+}
+
+function finalizeValue(value: unknown): unknown {
+    return isNode(value) ? finalize(value, true) : value;
+}
+
+/**
+ * Converts URL-encoded entries (e.g. URLSearchParams) into a nested object.
+ * Supports bracket (user[name], tags[], items[0][id]) and dot (a.b.c) nesting, repeated keys are collected into arrays
+ */
+export function fromUrlencoded(entries: Iterable<[string, unknown]>, options: UrlencodedOptions = {}, path?: string | FieldPath): Record<string, unknown> {
+    const root = Object.create(null) as Node;
+    for (const [key, value] of entries) {
+        const segments = splitKey(key, options.allowDots ?? true);
+        if (options.maxDepth !== undefined && segments.length > options.maxDepth) {
+            throw createError("too_big", [...toPath(path), key], value, {max: options.maxDepth, type: "depth"});
+        }
+        assign(root, segments, value);
+    }
+    return finalize(root, false) as Record<string, unknown>;
+}
+
+/**
+ * Parses an application/x-www-form-urlencoded string (a query string, with or without the leading "?") into a nested object
+ */
+export function parseUrlencoded(text: string, options: UrlencodedOptions = {}, path?: string | FieldPath): Record<string, unknown> {
+    return fromUrlencoded(new URLSearchParams(text), options, path);
+}
+
+/**
+ * Reads an application/x-www-form-urlencoded body from the stream and parses it into a nested object
+ */
+export function parseUrlencodedStream(stream: NodeJS.ReadableStream, path: FieldPath, options: UrlencodedOptions = {}): Promise<Record<string, unknown>> {
+    return new Promise((resolve, reject) => {
+        const chunks: Array<Buffer> = [];
+        let size = 0;
+
+        const onData = (chunk: Buffer | string) => {
+            const buffer = Buffer.from(chunk);
+            size += buffer.byteLength;
+            if (options.maxBytes !== undefined && size > options.maxBytes) {
+                stream.removeListener('data', onData);
+                stream.removeListener('end', onEnd);
+                stream.pause();
+                reject(createError("too_big", path, undefined, {max: options.maxBytes, type: "bytes"}));
+                return;
+            }
+            chunks.push(buffer);
+        };
+
+        const onEnd = () => {
+            try {
+                resolve(parseUrlencoded(Buffer.concat(chunks).toString(), options, path));
+            }
+            catch (error) {
+                reject(error);
+            }
+        };
+
+        stream.on('data', onData);
+        onStreamEnd(stream, onEnd);
+        stream.on('error', (err: Error) => {
+            reject(createError("read_error", path, undefined, {reason: err.message}));
+        });
+    });
+}
+
+function toEntries(value: unknown): Iterable<[string, unknown]> | undefined {
+    if (value instanceof URLSearchParams) return value;
+    if (value instanceof URL) return value.searchParams;
+    if (typeof value === "string" || value instanceof Buffer) return new URLSearchParams(value.toString());
+    return undefined;
+}
+
+/**
+ * Parses a query string, URLSearchParams or URL (also an already parsed query object, e.g. req.query) with an object shape.
+ * Keys can be nested with brackets or dots, repeated keys are collected into arrays
+ *
+ * @param shape - object shape of the query
+ * @param options - object options (unknownKeys, checks, message) and nesting options
+ */
+export const query = <T extends Record<string, unknown>>(
+    shape: { [K in keyof T]: Parser<T[K]> },
+    options: ObjectOptions<T> = {}
+) => {
+    const parser = object(shape, options);
+    const toObject = (value: unknown, path?: string | FieldPath): unknown => {
+        const entries = toEntries(value);
+        return entries ? fromUrlencoded(entries, options, path) : value;
+    };
+
+    return createParser(
+        (value, path): ObjectResult<T> => parser(toObject(value, path), path),
+        undefined,
+        parser.meta,
+        () => async (value, path): Promise<ObjectResult<T>> => parser.async(toObject(value, path), path)
+    );
+};
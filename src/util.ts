@@ -1,8 +1,10 @@
-import {createParser, type Parser, ParsingError} from "./base.js";
+import {createParser, type Parser, ParsingError, createError, mergeErrors, type IssueMessage, type FieldPath, AsyncParsingRequiredError, peekStream, streamToBuffer, type Refinement, type RefinementIssue, runRefinements, runRefinementsAsync, predicateRefinement} from "./base.js";
+import {Readable} from "node:stream";
 import {string} from "./basic.js";
 
 export const oneOf = <T extends readonly unknown[]>(
-    values: T
+    values: T,
+    options: { message?: IssueMessage } = {}
 ) => createParser((value, path): T[number] => {
     for (const allowedValue of values) {
         if (value === allowedValue) {
@@ -10,34 +12,117 @@ export const oneOf = <T extends readonly unknown[]>(
         }
     }
 
-    throw new ParsingError(`[${path ?? ""}] isn't equal to any of the expected values`, [{path, issue: "isn't equal to any of the expected values", rejectedValue: null}]);
-});
+    throw createError("invalid_value", path, value, {values}, options.message);
+}, undefined, {kind: "oneOf", options, values});
+
+type Literal = string | number | boolean | bigint | null | undefined;
+
+// the allowed value equal to value, strings (e.g. query parameters) also match numbers, booleans and bigints
+function matchLiteral(value: unknown, values: ReadonlyArray<Literal>): {value: Literal} | undefined {
+    const input = Buffer.isBuffer(value) ? value.toString() : value;
+    for (const allowedValue of values) {
+        if (input === allowedValue) return {value: allowedValue};
+        if (typeof input === "string" && ["number", "boolean", "bigint"].includes(typeof allowedValue) && String(allowedValue) === input) {
+            return {value: allowedValue};
+        }
+    }
+    return undefined;
+}
+
+export const literal = <const T extends Literal>(
+    value: T,
+    options: { message?: IssueMessage } = {}
+) => createParser((input, path): T => {
+    const match = matchLiteral(input, [value]);
+    if (!match) throw createError("invalid_value", path, input, {values: [value]}, options.message);
+    return match.value as T;
+}, undefined, {kind: "literal", options, values: [value]});
+
+// values of a TypeScript enum, without the reverse mappings of numeric members
+function enumValues(enumObject: Record<string, string | number>): Array<string | number> {
+    return Object.keys(enumObject)
+        .filter(key => typeof enumObject[enumObject[key]!] !== "number")
+        .map(key => enumObject[key]!);
+}
+
+/**
+ * Parses a member value of a TypeScript enum (or an object of constants), numeric members are also parsed from strings
+ */
+export const nativeEnum = <T extends Record<string, string | number>>(
+    enumObject: T,
+    options: { message?: IssueMessage } = {}
+) => {
+    const values = enumValues(enumObject);
+    return createParser((value, path): T[keyof T] => {
+        const match = matchLiteral(value, values);
+        if (!match) throw createError("invalid_value", path, value, {values}, options.message);
+        return match.value as T[keyof T];
+    }, undefined, {kind: "nativeEnum", options, values});
+};
+
+type AlternativesResult<T extends readonly unknown[]> = { [K in keyof T]: T[K] extends Parser<infer U> ? U : never }[number];
 
 export const alternatives = <T extends readonly [...Parser<unknown>[]]>(
     ...parsers: T
-) => createParser((value, path): { [K in keyof T]: T[K] extends Parser<infer U> ? U : never }[number] => {
-    const errors: Array<ParsingError> = [];
-
-    for (const parser of parsers) {
-        try {
-            return parser(value, path) as { [K in keyof T]: T[K] extends Parser<infer U> ? U : never }[number];
-        } catch (error) {
-            if (error instanceof ParsingError) {
-                errors.push(error);
+) => {
+    const fail = (errors: Array<ParsingError>, value: unknown, path?: string | FieldPath) =>
+        mergeErrors(errors, `${createError("invalid_union", path, value).message}:\n${errors.map(error => error.message).join('\n')}`);
+
+    return createParser((value, path): AlternativesResult<T> => {
+        const errors: Array<ParsingError> = [];
+
+        for (const parser of parsers) {
+            try {
+                return parser(value, path) as AlternativesResult<T>;
+            } catch (error) {
+                if (error instanceof ParsingError) {
+                    errors.push(error);
+                }
+                else {
+                    throw error;
+                }
             }
-            else {
-                throw error;
+        }
+
+        throw fail(errors, value, path);
+    }, () => async (stream, path, options): Promise<AlternativesResult<T>> => {
+        // each alternative reads the body again, so it's kept in memory
+        const body = await streamToBuffer(stream);
+        const errors: Array<ParsingError> = [];
+
+        for (const parser of parsers) {
+            try {
+                return await parser.stream(Readable.from([body]), path, options) as AlternativesResult<T>;
+            } catch (error) {
+                if (error instanceof ParsingError) {
+                    errors.push(error);
+                }
+                else {
+                    throw error;
+                }
             }
         }
-    }
 
+        throw fail(errors, undefined, path);
+    }, {kind: "alternatives", parsers}, () => async (value, path): Promise<AlternativesResult<T>> => {
+        const errors: Array<ParsingError> = [];
+
+        for (const parser of parsers) {
+            try {
+                return await parser.async(value, path) as AlternativesResult<T>;
+            } catch (error) {
+                if (error instanceof ParsingError) {
+                    errors.push(error);
+                }
+                else {
+                    throw error;
+                }
+            }
+        }
 
-    const fieldErrors: Array<{path: string | undefined, issue: string, rejectedValue: any}> = [];
-    errors.forEach(({fields}) => {
-        fieldErrors.push(...fields);
+        throw fail(errors, value, path);
     });
-    throw new ParsingError(`[${path}] doesn't match any of allowed alternatives:\n${errors.map(error => error.message).join('\n')}`, fieldErrors);
-});
+};
 
 export const optional = <T>(parser: Parser<T>
 ) => createParser((value, path) => {
@@ -46,6 +131,19 @@ export const optional = <T>(parser: Parser<T>
     }
 
     return parser(value, path);
+}, () => async (stream, path, options) => {
+    // an empty body is a missing value
+    if (await peekStream(stream) === "") {
+        return undefined;
+    }
+
+    return parser.stream(stream, path, options);
+}, {kind: "optional", inner: parser}, () => async (value, path) => {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+
+    return parser.async(value, path);
 });
 
 export const nullable = <T>(parser: Parser<T>
@@ -55,6 +153,12 @@ export const nullable = <T>(parser: Parser<T>
     }
 
     return parser(value, path);
+}, () => async (stream, path, options) => parser.stream(stream, path, options), {kind: "nullable", inner: parser}, () => async (value, path) => {
+    if (value === null) {
+        return null;
+    }
+
+    return parser.async(value, path);
 });
 
 export const defaultValue = <T>(defaultValue: T, parser: Parser<T>
@@ -64,35 +168,47 @@ export const defaultValue = <T>(defaultValue: T, parser: Parser<T>
     }
 
     return parser(value, path);
+}, () => async (stream, path, options) => {
+    if (await peekStream(stream) === "") {
+        return defaultValue;
+    }
+
+    return parser.stream(stream, path, options);
+}, {kind: "defaultValue", inner: parser, default: defaultValue}, () => async (value, path) => {
+    if (value === undefined || value === null) {
+        return defaultValue;
+    }
+
+    return parser.async(value, path);
 });
 
-export const uuid = () => createParser((value, path) => {
+export const uuid = (options: { version?: number; message?: IssueMessage } = {}) => createParser((value, path) => {
     const strValue = string()(value, path);
 
-    // UUID regex pattern (v1-v5)
-    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+    // UUID regex pattern (any version, including nil and max UUIDs), case-insensitive
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-    if (!uuidPattern.test(strValue)) {
-        throw new ParsingError(`[${path ?? ""}] is not a valid UUID`, [{path, issue: "not a valid UUID", rejectedValue: strValue}]);
+    if (!uuidPattern.test(strValue) || options.version !== undefined && strValue[14] !== options.version.toString(16)) {
+        throw createError("invalid_format", path, value, {format: "uuid", ...(options.version !== undefined ? {version: options.version} : {})}, options.message);
     }
 
     return strValue;
-});
+}, undefined, {kind: "uuid", options});
 
-export const email = (options: {min?: number, max?: number} = {}) => createParser((value, path) => {
+export const email = (options: {min?: number, max?: number, message?: IssueMessage} = {}) => createParser((value, path) => {
     const strValue = string(options)(value, path);
 
     // Email regex pattern
     const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
     if (!emailPattern.test(strValue)) {
-        throw new ParsingError(`[${path ?? ""}] is not a valid email`, [{path, issue: "not a valid email", rejectedValue: strValue}]);
+        throw createError("invalid_format", path, value, {format: "email"}, options.message);
     }
 
     return strValue;
-});
+}, undefined, {kind: "email", options});
 
-export const any = <T>() => createParser((value, _path) => value as T);
+export const any = <T>() => createParser((value, _path) => value as T, undefined, {kind: "any"});
 
 export const transform = <T, U>(
     parser: Parser<T>,
@@ -100,4 +216,38 @@ export const transform = <T, U>(
 ) => createParser((value, path) => {
     const parsed = parser(value, path);
     return transformer(parsed);
-});
\ No newline at end of file
+}, () => async (stream, path, options) => transformer(await parser.stream(stream, path, options)), {kind: "transform", inner: parser}, () => async (value, path) => {
+    return transformer(await parser.async(value, path));
+});
+
+export const transformAsync = <T, U>(
+    parser: Parser<T>,
+    transformer: (value: T) => Promise<U>
+) => createParser((_value, path): U => {
+    throw new AsyncParsingRequiredError(path);
+}, () => async (stream, path, options) => transformer(await parser.stream(stream, path, options)), {kind: "transform", inner: parser}, () => async (value, path) => {
+    return transformer(await parser.async(value, path));
+});
+
+export const superRefine = <T>(
+    parser: Parser<T>,
+    check: Refinement<T>
+) => createParser((value, path): T => {
+    const parsed = parser(value, path);
+    runRefinements(parsed, path, [check]);
+    return parsed;
+}, () => async (stream, path, options) => {
+    const parsed = await parser.stream(stream, path, options);
+    await runRefinementsAsync(parsed, path, [check]);
+    return parsed;
+}, {kind: "refine", inner: parser}, () => async (value, path) => {
+    const parsed = await parser.async(value, path);
+    await runRefinementsAsync(parsed, path, [check]);
+    return parsed;
+});
+
+export const refine = <T>(
+    parser: Parser<T>,
+    predicate: (value: T) => boolean | Promise<boolean>,
+    issue: IssueMessage | RefinementIssue = {}
+) => superRefine(parser, predicateRefinement(predicate, issue));
@@ -0,0 +1,21 @@
+// Type-level tests, checked by npm run test:types (nothing runs at runtime)
+import {object, string, int, anyField, type Parser} from "../src/index.js";
+
+type Result<P> = P extends Parser<infer T> ? T : never;
+
+type Equals<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false;
+const expectType = <T extends true>() => undefined as unknown as T;
+
+declare const withAnyField: Result<ReturnType<typeof object<{id: number, [anyField]: string}>>>;
+
+// object literals with declared and unknown fields are assignable
+export const literal: typeof withAnyField = {id: 1, other: "x"};
+
+expectType<Equals<typeof withAnyField.id, number>>();
+expectType<Equals<typeof withAnyField.other, string | number | undefined>>();
+
+// @ts-expect-error declared fields keep their type
+export const wrongId: typeof withAnyField = {id: "1", other: "x"};
+
+export const parsed = () => object({id: int(), [anyField]: string()})({id: 1});
+expectType<Equals<ReturnType<typeof parsed>, typeof withAnyField>>();